@@ -1,33 +1,8 @@
 import type { FetchContext } from 'ofetch'
 import type { ConsolaInstance } from 'consola'
-import type { TokenStorage } from '../../src/runtime/types/config'
-import { defineAppConfig } from '#imports'
+import { defineAppConfig, useSanctumAuth } from '#imports'
 import type { NuxtApp } from '#app'
 
-const tokenStorageKey = 'sanctum.storage.token'
-const localTokenStorage: TokenStorage = {
-  get: async () => {
-    if (import.meta.server) {
-      return undefined
-    }
-
-    return window.localStorage.getItem(tokenStorageKey) ?? undefined
-  },
-
-  set: async (app: NuxtApp, token?: string) => {
-    if (import.meta.server) {
-      return
-    }
-
-    if (!token) {
-      window.localStorage.removeItem(tokenStorageKey)
-      return
-    }
-
-    window.localStorage.setItem(tokenStorageKey, token)
-  },
-}
-
 export default defineAppConfig({
   sanctum: {
     interceptors: {
@@ -48,6 +23,18 @@ export default defineAppConfig({
       },
     },
 
-    tokenStorage: localTokenStorage,
+    onPasswordConfirmationRequired: async (app: NuxtApp) => {
+      const password = window.prompt('Please confirm your password to continue')
+
+      if (!password) {
+        return false
+      }
+
+      await app.runWithContext(
+        async () => await useSanctumAuth().confirmPassword({ password }),
+      )
+
+      return true
+    },
   },
 })
@@ -10,11 +10,17 @@ export default defineNuxtConfig({
     baseUrl: 'http://localhost:8000',
     mode: 'cookie',
     logLevel: 5,
+    tokenStorage: {
+      driver: 'local',
+    },
     twoFactor: {
       enforce: true,
       confirm: true,
       confirmPassword: true,
     },
+    passwordConfirmation: {
+      retryOnLocked: true,
+    },
     redirect: {
       keepRequestedRoute: true,
       onAuthOnly: '/login',
@@ -28,6 +34,13 @@ export default defineNuxtConfig({
       logout: '/logout',
       user: '/api/user',
     },
+    sync: {
+      enabled: true,
+    },
+    idle: {
+      enabled: true,
+      timeout: 300,
+    },
     globalMiddleware: {
       allow404WithoutAuth: false,
       enabled: false,
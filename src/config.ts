@@ -11,9 +11,16 @@ export const defaultModuleOptions: ModuleOptions = {
     confirm: true,
     confirmPassword: true,
   },
+  passwordConfirmation: {
+    timeout: 10800,
+    retryOnLocked: false,
+  },
   endpoints: {
     csrf: '/sanctum/csrf-cookie',
     login: '/login',
+    register: '/register',
+    forgot_password: '/forgot-password',
+    reset_password: '/reset-password',
     two_factor_qr_code: '/user/two-factor-qr-code',
     two_factor_enable: '/user/two-factor-authentication',
     two_factor_confirm: '/user/confirmed-two-factor-authentication',
@@ -21,27 +28,77 @@ export const defaultModuleOptions: ModuleOptions = {
     two_factor_recovery_codes: '/user/two-factor-recovery-codes',
     two_factor_disable: '/user/two-factor-authentication',
     confirm_password: '/user/confirm-password',
+    confirmed_password_status: '/user/confirmed-password-status',
+    update_profile: '/user/profile-information',
+    update_password: '/user/password',
+    email_verification_notification: '/email/verification-notification',
+    verify_email: '/email/verify',
     logout: '/logout',
+    keep_alive: '/sanctum/csrf-cookie',
     user: '/api/user',
   },
   csrf: {
     cookie: 'XSRF-TOKEN',
     header: 'X-XSRF-TOKEN',
+    retryOnMismatch: false,
   },
   client: {
     retry: false,
     initialRequest: true,
+    blockThrottledRequests: false,
+  },
+  serverHeaders: {
+    forwardClientIp: false,
+    trustProxy: false,
+    forwardAcceptLanguage: true,
+    headers: [],
+    allowCookies: [],
+    denyCookies: [],
+  },
+  proxy: {
+    prefix: '/_sanctum',
+  },
+  tokenStorage: {
+    driver: 'cookie',
+    key: 'sanctum.storage.token',
+  },
+  tokenCookie: {
+    name: 'sanctum.token.cookie',
+    sameSite: 'lax',
+    path: '/',
+  },
+  serverTokenStorage: {
+    enabled: false,
+    cookie: 'sanctum.token',
+    endpoint: '/_sanctum-token',
   },
   redirect: {
     keepRequestedRoute: false,
     onLogin: '/',
+    onRegister: '/',
     onTwoFactorOnly: '/two-factor-qr-code',
     onLogout: '/',
     onAuthOnly: '/login',
+    onUnverified: '/verify-email',
     onGuestOnly: '/',
     onLoginWithTwoFactor: '/two-factor-challenge',
     onLoginWithConfigureTwoFactor: '/two-factor-qr-code',
     toRecoveryCodesOnConfirmingTwoFactor: '/two-factor-recovery-codes',
+    onTwoFactorDisabled: '/',
+  },
+  sync: {
+    enabled: false,
+    channel: 'sanctum.auth.sync',
+  },
+  session: {
+    lifetime: 120,
+    keepAlive: false,
+    keepAliveInterval: 300,
+  },
+  idle: {
+    enabled: false,
+    timeout: 900,
+    warning: 60,
   },
   globalMiddleware: {
     enabled: false,
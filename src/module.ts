@@ -3,17 +3,22 @@ import {
   addPlugin,
   createResolver,
   addImportsDir,
+  addImports,
   addRouteMiddleware,
+  addServerHandler,
   useLogger,
 } from '@nuxt/kit'
 import { defu } from 'defu'
 import { defaultModuleOptions } from './config'
 import type { ModuleOptions } from './runtime/types/options'
 import { registerTypeTemplates } from './templates'
+import { isProxyEnabled } from './runtime/utils/baseUrl'
 
 const MODULE_NAME = 'nuxt-auth-sanctum-fortify-two-factor'
 
 export type ModulePublicRuntimeConfig = { sanctum: ModuleOptions }
+export type ModuleRuntimeConfig = { sanctum: { serverBaseUrl: string } }
+export type { SanctumErrorCode } from './runtime/errors'
 
 export default defineNuxtModule<ModuleOptions>({
   meta: {
@@ -34,7 +39,14 @@ export default defineNuxtModule<ModuleOptions>({
     )
 
     _nuxt.options.build.transpile.push(resolver.resolve('./runtime'))
-    _nuxt.options.runtimeConfig.public.sanctum = sanctumConfig
+
+    const { serverBaseUrl, ...publicConfig } = sanctumConfig
+
+    _nuxt.options.runtimeConfig.public.sanctum = publicConfig
+    _nuxt.options.runtimeConfig.sanctum = defu(
+      _nuxt.options.runtimeConfig.sanctum,
+      { serverBaseUrl: serverBaseUrl ?? '' },
+    )
 
     const logger = useLogger(MODULE_NAME, {
       level: sanctumConfig.logLevel,
@@ -43,6 +55,39 @@ export default defineNuxtModule<ModuleOptions>({
     addPlugin(resolver.resolve('./runtime/plugin'), { append: sanctumConfig.appendPlugin })
     addImportsDir(resolver.resolve('./runtime/composables'))
 
+    const errorsPath = resolver.resolve('./runtime/errors')
+
+    addImports(
+      ['SanctumError', 'SanctumConfigurationError', 'SanctumStateError', 'SanctumApiError'].map(name => ({
+        name,
+        from: errorsPath,
+      })),
+    )
+    // prevent auto-importing error classes into the module where they are declared
+    _nuxt.options.imports.transform ??= {}
+    _nuxt.options.imports.transform.exclude ??= []
+    _nuxt.options.imports.transform.exclude.push(
+      new RegExp(`^${errorsPath.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(\\.[cm]?[jt]s)?$`),
+    )
+
+    if (sanctumConfig.serverTokenStorage.enabled && sanctumConfig.mode !== 'token') {
+      logger.warn('Server token storage is used only in `token` mode and will be ignored')
+    }
+
+    if (isProxyEnabled(sanctumConfig as ModuleOptions)) {
+      addServerHandler({
+        route: `${sanctumConfig.proxy.prefix}/**`,
+        handler: resolver.resolve('./runtime/server/proxy'),
+      })
+    }
+
+    if (sanctumConfig.mode === 'token' && sanctumConfig.serverTokenStorage.enabled) {
+      addServerHandler({
+        route: sanctumConfig.serverTokenStorage.endpoint,
+        handler: resolver.resolve('./runtime/server/token'),
+      })
+    }
+
     if (sanctumConfig.globalMiddleware.enabled) {
       addRouteMiddleware({
         name: 'sanctum:auth:global',
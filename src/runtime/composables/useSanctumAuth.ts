@@ -1,6 +1,17 @@
-import { computed, type Ref } from 'vue'
+import { computed, toRef, type Ref } from 'vue'
+import type { FetchOptions } from 'ofetch'
 import { trimTrailingSlash } from '../utils/formatter'
-import { IDENTITY_LOADED_KEY } from '../utils/constants'
+import { IDENTITY_LOADED_KEY, PASSWORD_CONFIRMED_AT_KEY } from '../utils/constants'
+import {
+  fetchIdentity,
+  useIdentityFetchedAt,
+  useIdentityStatus,
+  type IdentityStatus,
+} from '../utils/identity'
+import { broadcastSyncEvent } from '../utils/sync'
+import { useSessionExpiresAt } from '../utils/session'
+import { useThrottledUntil } from '../utils/throttle'
+import { SanctumConfigurationError, SanctumStateError, toSanctumError } from '../errors'
 import { useSanctumClient } from './useSanctumClient'
 import { useSanctumUser } from './useSanctumUser'
 import { useSanctumConfig } from './useSanctumConfig'
@@ -12,15 +23,30 @@ export interface SanctumAuth<T extends BaseUser> {
   isAuthenticated: Ref<boolean>
   isVerified: Ref<boolean>
   isAuthenticatedWithTwoFactor: Ref<boolean>
+  isPasswordConfirmed: Ref<boolean>
+  identityStatus: Ref<IdentityStatus>
+  lastFetchedAt: Ref<number | null>
+  sessionExpiresAt: Ref<number | null>
+  throttledUntil: Ref<Record<string, number>>
   init: () => Promise<void>
   login: (credentials: Record<string, any>) => Promise<void>
+  register: (payload: Record<string, any>) => Promise<void>
+  requestPasswordReset: (email: string) => Promise<void>
+  resetPassword: (credentials: ResetPasswordCredentials, autoLogin?: boolean) => Promise<void>
   enableTwoFactorAuthentication: () => Promise<void>
   confirmPassword: (credentials: { password: string }) => Promise<void>
+  checkPasswordConfirmation: () => Promise<boolean>
+  withPasswordConfirmation: <R>(callback: () => Promise<R>, prompt: () => Promise<string>) => Promise<R>
+  updateProfile: (data: Partial<T>) => Promise<void>
+  updatePassword: (credentials: UpdatePasswordCredentials) => Promise<void>
+  resendVerificationEmail: () => Promise<void>
+  verifyEmail: (id: string | number, hash: string, query?: Record<string, any>) => Promise<void>
   twoFactorQrSvg: () => Promise<{ svg?: string }>
   confirmTwoFactorAuthentication: (credentials: { code: string }) => Promise<void>
   twoFactorChallenge: (credentials: { code?: string, recovery_code?: string }) => Promise<void>
   getRecoveryCodes: () => Promise<string[]>
   regenerateRecoveryCodes: () => Promise<string[]>
+  disableTwoFactorAuthentication: (credentials?: { password: string }) => Promise<void>
   logout: () => Promise<void>
   refreshIdentity: () => Promise<void>
 }
@@ -29,12 +55,25 @@ export interface BaseUser {
   id: number
   name: string
   email: string
-  email_verified_at: Date
+  email_verified_at: Date | null
   two_factor_confirmed_at?: Date
   created_at: Date
   updated_at: Date
 }
 
+export type ResetPasswordCredentials = {
+  token: string
+  email: string
+  password: string
+  password_confirmation: string
+}
+
+export type UpdatePasswordCredentials = {
+  current_password: string
+  password: string
+  password_confirmation: string
+}
+
 export type TokenResponse = {
   token?: string
   two_factor?: boolean
@@ -73,11 +112,53 @@ export const useSanctumAuth = <T extends BaseUser>(): SanctumAuth<T> => {
     return trimTrailingSlash(currentRoute.value.path)
   })
 
+  const passwordConfirmedAt = useState<number | null>(
+    PASSWORD_CONFIRMED_AT_KEY,
+    () => null,
+  )
+
+  // getter ref is evaluated on every access, computed would cache the result
+  // since Date.now() is not reactive and would never expire the confirmation
+  const isPasswordConfirmed = toRef(() => {
+    if (!isAuthenticated.value || passwordConfirmedAt.value === null) {
+      return false
+    }
+
+    const timeout = (options.passwordConfirmation.timeout ?? 0) * 1000
+
+    return Date.now() - passwordConfirmedAt.value < timeout
+  })
+
+  const identityStatus = useIdentityStatus()
+  const lastFetchedAt = useIdentityFetchedAt()
+  const sessionExpiresAt = useSessionExpiresAt()
+  const throttledUntil = useThrottledUntil()
+
   const isIdentityLoaded = useState<boolean>(
     IDENTITY_LOADED_KEY,
     () => false,
   )
 
+  /**
+   * Sends the request to the API and wraps the failed response into `SanctumApiError`
+   */
+  async function request<R = any>(endpoint: string, fetchOptions?: FetchOptions<'json'>): Promise<R> {
+    try {
+      return await client<R>(endpoint, fetchOptions)
+    }
+    catch (error) {
+      throw toSanctumError(error)
+    }
+  }
+
+  /**
+   * Notifies listeners about the upcoming redirect and navigates to the route
+   */
+  async function redirectTo(route: string) {
+    await nuxtApp.callHook('sanctum:redirect', route)
+    await nuxtApp.runWithContext(async () => await navigateTo(route))
+  }
+
   /**
    * Initial request of the user identity for plugin initialization.
    * Only call this method when `sanctum.client.initialRequest` is false.
@@ -88,14 +169,24 @@ export const useSanctumAuth = <T extends BaseUser>(): SanctumAuth<T> => {
     }
 
     isIdentityLoaded.value = true
-    await refreshIdentity()
+    await loadIdentity(false)
   }
 
   /**
-   * Fetches the user object from the API and sets it to the current state
+   * Fetches the user object from the API and sets it to the current state.
+   * Waits for the pending request to finish and sends a new one,
+   * so the identity reflects the latest changes, e.g. login or email verification.
    */
   async function refreshIdentity() {
-    user.value = await client<T>(options.endpoints.user!)
+    await loadIdentity(true)
+  }
+
+  async function loadIdentity(fresh: boolean) {
+    const identity = await fetchIdentity<T>(nuxtApp, client, options, { fresh }).catch((error) => {
+      throw toSanctumError(error)
+    })
+
+    broadcastSyncEvent(options, { type: 'identity', user: identity })
   }
 
   /**
@@ -106,7 +197,7 @@ export const useSanctumAuth = <T extends BaseUser>(): SanctumAuth<T> => {
   async function login(credentials: Record<string, any>) {
     if (isAuthenticated.value) {
       if (!options.redirectIfAuthenticated) {
-        throw new Error('User is already authenticated')
+        throw new SanctumStateError('already_authenticated', 'User is already authenticated')
       }
 
       if (
@@ -117,19 +208,17 @@ export const useSanctumAuth = <T extends BaseUser>(): SanctumAuth<T> => {
       }
 
       if (options.redirect.onLogin === undefined) {
-        throw new Error('`sanctum.redirect.onLogin` is not defined')
+        throw new SanctumConfigurationError('sanctum.redirect.onLogin')
       }
 
-      await nuxtApp.runWithContext(
-        async () => await navigateTo(options.redirect.onLogin as string),
-      )
+      await redirectTo(options.redirect.onLogin as string)
     }
 
     if (options.endpoints.login === undefined) {
-      throw new Error('`sanctum.endpoints.login` is not defined')
+      throw new SanctumConfigurationError('sanctum.endpoints.login')
     }
 
-    const response = await client<TokenResponse>(options.endpoints.login, {
+    const response = await request<TokenResponse>(options.endpoints.login, {
       method: 'post',
       body: credentials,
     })
@@ -142,11 +231,139 @@ export const useSanctumAuth = <T extends BaseUser>(): SanctumAuth<T> => {
     }
   }
 
+  /**
+   * Calls the register endpoint and sets the created user object to the current state
+   *
+   * @param payload User details to pass to the register endpoint
+   */
+  async function register(payload: Record<string, any>) {
+    if (isAuthenticated.value) {
+      if (!options.redirectIfAuthenticated) {
+        throw new SanctumStateError('already_authenticated', 'User is already authenticated')
+      }
+
+      if (
+        options.redirect.onLogin === false
+        || options.redirect.onLogin === currentPath.value
+      ) {
+        return
+      }
+
+      if (options.redirect.onLogin === undefined) {
+        throw new SanctumConfigurationError('sanctum.redirect.onLogin')
+      }
+
+      await redirectTo(options.redirect.onLogin as string)
+    }
+
+    if (options.endpoints.register === undefined) {
+      throw new SanctumConfigurationError('sanctum.endpoints.register')
+    }
+
+    const response = await request<TokenResponse>(options.endpoints.register, {
+      method: 'post',
+      body: payload,
+    })
+
+    await storeToken(response ?? {})
+
+    if (options.twoFactor.enforce) {
+      await handleTwoFactorAuthentication({ password: payload.password }, false)
+      return
+    }
+
+    await refreshIdentity()
+    await notifyLogin()
+
+    if (options.redirect.keepRequestedRoute) {
+      const requestedRoute = currentRoute.value.query.redirect as string | undefined
+
+      if (requestedRoute && requestedRoute !== currentPath.value) {
+        await redirectTo(requestedRoute)
+        return
+      }
+    }
+
+    if (
+      options.redirect.onRegister === false
+      || options.redirect.onRegister === currentPath.value
+    ) {
+      return
+    }
+
+    if (options.redirect.onRegister === undefined) {
+      throw new SanctumConfigurationError('sanctum.redirect.onRegister')
+    }
+
+    await redirectTo(options.redirect.onRegister as string)
+  }
+
+  /**
+   * Calls the forgot password endpoint to send a reset link to the email
+   *
+   * @param email Email of the user to send the reset link to
+   */
+  async function requestPasswordReset(email: string) {
+    if (isAuthenticated.value) {
+      throw new SanctumStateError('already_authenticated', 'User is already authenticated')
+    }
+
+    if (options.endpoints.forgot_password === undefined) {
+      throw new SanctumConfigurationError('sanctum.endpoints.forgot_password')
+    }
+
+    await request(options.endpoints.forgot_password, {
+      method: 'post',
+      body: { email },
+    })
+  }
+
+  /**
+   * Calls the reset password endpoint and either logs the user in or redirects to the login page
+   *
+   * @param credentials Token and email from the reset link along with the new password
+   * @param autoLogin Whether to log the user in with the new password after reset
+   */
+  async function resetPassword(credentials: ResetPasswordCredentials, autoLogin: boolean = false) {
+    if (isAuthenticated.value) {
+      throw new SanctumStateError('already_authenticated', 'User is already authenticated')
+    }
+
+    if (options.endpoints.reset_password === undefined) {
+      throw new SanctumConfigurationError('sanctum.endpoints.reset_password')
+    }
+
+    await request(options.endpoints.reset_password, {
+      method: 'post',
+      body: credentials,
+    })
+
+    if (autoLogin) {
+      await login({ email: credentials.email, password: credentials.password })
+      return
+    }
+
+    if (
+      options.redirect.onAuthOnly === false
+      || options.redirect.onAuthOnly === currentPath.value
+    ) {
+      return
+    }
+
+    if (options.redirect.onAuthOnly === undefined) {
+      throw new SanctumConfigurationError('sanctum.redirect.onAuthOnly')
+    }
+
+    await redirectTo(options.redirect.onAuthOnly as string)
+  }
+
   /**
    * Redirect the user based on the two-factor authentication settings
    */
   async function handleTwoFactorAuthentication(credentials: { password: string }, two_factor: boolean) {
     if (two_factor) {
+      await nuxtApp.callHook('sanctum:two-factor:required')
+
       if (
         options.redirect.onLoginWithTwoFactor === false
         || options.redirect.onLoginWithTwoFactor === currentPath.value
@@ -155,16 +372,20 @@ export const useSanctumAuth = <T extends BaseUser>(): SanctumAuth<T> => {
       }
 
       if (options.redirect.onLoginWithTwoFactor === undefined) {
-        throw new Error('`sanctum.redirect.onLoginWithTwoFactor` is not defined')
+        throw new SanctumConfigurationError('sanctum.redirect.onLoginWithTwoFactor')
       }
 
-      await nuxtApp.runWithContext(
-        async () => await navigateTo(options.redirect.onLoginWithTwoFactor as string),
-      )
+      await redirectTo(options.redirect.onLoginWithTwoFactor as string)
     }
     else {
+      // authentication is completed, the user only has to set up two-factor authentication
       await refreshIdentity()
-      await confirmPassword(credentials)
+      await notifyLogin()
+
+      if (!isPasswordConfirmed.value) {
+        await confirmPassword(credentials)
+      }
+
       await enableTwoFactorAuthentication()
 
       if (
@@ -175,12 +396,10 @@ export const useSanctumAuth = <T extends BaseUser>(): SanctumAuth<T> => {
       }
 
       if (options.redirect.onLoginWithConfigureTwoFactor === undefined) {
-        throw new Error('`sanctum.redirect.onLoginWithConfigureTwoFactor` is not defined')
+        throw new SanctumConfigurationError('sanctum.redirect.onLoginWithConfigureTwoFactor')
       }
 
-      await nuxtApp.runWithContext(
-        async () => await navigateTo(options.redirect.onLoginWithConfigureTwoFactor as string),
-      )
+      await redirectTo(options.redirect.onLoginWithConfigureTwoFactor as string)
     }
   }
 
@@ -190,24 +409,22 @@ export const useSanctumAuth = <T extends BaseUser>(): SanctumAuth<T> => {
   async function enableTwoFactorAuthentication() {
     if (!isAuthenticated.value) {
       if (!options.redirectIfUnauthenticated) {
-        throw new Error('Please login to enable 2 Factor Authentication')
+        throw new SanctumStateError('not_authenticated', 'Please login to enable 2 Factor Authentication')
       }
       if (options.redirect.onAuthOnly === false || options.redirect.onAuthOnly === currentPath.value) {
         return
       }
       if (options.redirect.onAuthOnly === void 0) {
-        throw new Error('`sanctum.redirect.onAuthOnly` is not defined')
+        throw new SanctumConfigurationError('sanctum.redirect.onAuthOnly')
       }
-      await nuxtApp.runWithContext(
-        async () => await navigateTo(options.redirect.onAuthOnly as string),
-      )
+      await redirectTo(options.redirect.onAuthOnly as string)
     }
 
     if (options.endpoints.two_factor_enable === void 0) {
-      throw new Error('`sanctum.endpoints.two_factor_enable` is not defined')
+      throw new SanctumConfigurationError('sanctum.endpoints.two_factor_enable')
     }
 
-    await client(options.endpoints.two_factor_enable, {
+    await request(options.endpoints.two_factor_enable, {
       method: 'post',
     })
   }
@@ -218,27 +435,207 @@ export const useSanctumAuth = <T extends BaseUser>(): SanctumAuth<T> => {
   async function confirmPassword(credentials: { password: string }) {
     if (!isAuthenticated.value) {
       if (!options.redirectIfUnauthenticated) {
-        throw new Error('You must be logged in to perform this action')
+        throw new SanctumStateError('not_authenticated', 'You must be logged in to perform this action')
       }
       if (options.redirect.onAuthOnly === false || options.redirect.onAuthOnly === currentPath.value) {
         return
       }
       if (options.redirect.onAuthOnly === void 0) {
-        throw new Error('`sanctum.redirect.onAuthOnly` is not defined')
+        throw new SanctumConfigurationError('sanctum.redirect.onAuthOnly')
       }
-      await nuxtApp.runWithContext(
-        async () => await navigateTo(options.redirect.onAuthOnly as string),
-      )
+      await redirectTo(options.redirect.onAuthOnly as string)
     }
 
     if (options.endpoints.confirm_password === void 0) {
-      throw new Error('`sanctum.endpoints.confirm_password` is not defined')
+      throw new SanctumConfigurationError('sanctum.endpoints.confirm_password')
     }
 
-    await client(options.endpoints.confirm_password, {
+    await request(options.endpoints.confirm_password, {
       method: 'post',
       body: credentials,
     })
+
+    passwordConfirmedAt.value = Date.now()
+  }
+
+  /**
+   * Calls this endpoint to check whether the password was recently confirmed and syncs the current state
+   */
+  async function checkPasswordConfirmation(): Promise<boolean> {
+    if (!isAuthenticated.value) {
+      passwordConfirmedAt.value = null
+      return false
+    }
+
+    if (options.endpoints.confirmed_password_status === void 0) {
+      throw new SanctumConfigurationError('sanctum.endpoints.confirmed_password_status')
+    }
+
+    const response = await request<{ confirmed: boolean }>(options.endpoints.confirmed_password_status, {
+      method: 'get',
+    })
+
+    if (!response.confirmed) {
+      passwordConfirmedAt.value = null
+    }
+    else if (!isPasswordConfirmed.value) {
+      // the exact confirmation time is unknown, so assume the latest possible one
+      passwordConfirmedAt.value = Date.now()
+    }
+
+    return response.confirmed
+  }
+
+  /**
+   * Executes the callback and prompts for the password only if the confirmation has expired
+   *
+   * @param callback Sensitive action to execute once the password is confirmed
+   * @param prompt Function to request the password from the user, e.g. by opening a dialog
+   */
+  async function withPasswordConfirmation<R>(callback: () => Promise<R>, prompt: () => Promise<string>): Promise<R> {
+    if (!isPasswordConfirmed.value && !(await checkPasswordConfirmation())) {
+      const password = await prompt()
+      await confirmPassword({ password })
+    }
+
+    return await callback()
+  }
+
+  /**
+   * Calls the profile information endpoint and merges the changes into the user object
+   *
+   * @param data Profile fields to update
+   */
+  async function updateProfile(data: Partial<T>) {
+    if (!isAuthenticated.value) {
+      if (!options.redirectIfUnauthenticated) {
+        throw new SanctumStateError('not_authenticated', 'Please login to update the profile information')
+      }
+      if (options.redirect.onAuthOnly === false || options.redirect.onAuthOnly === currentPath.value) {
+        return
+      }
+      if (options.redirect.onAuthOnly === void 0) {
+        throw new SanctumConfigurationError('sanctum.redirect.onAuthOnly')
+      }
+      await redirectTo(options.redirect.onAuthOnly as string)
+    }
+
+    if (options.endpoints.update_profile === void 0) {
+      throw new SanctumConfigurationError('sanctum.endpoints.update_profile')
+    }
+
+    const response = await request<Partial<T> | undefined>(options.endpoints.update_profile, {
+      method: 'put',
+      body: data,
+    })
+
+    const current = user.value as T
+    const updated = {
+      ...current,
+      ...data,
+      ...(response && typeof response === 'object' ? response : {}),
+    } as T
+
+    // Fortify resets verification status when the email is changed
+    if (data.email !== undefined && data.email !== current.email) {
+      updated.email_verified_at = null
+    }
+
+    user.value = updated
+  }
+
+  /**
+   * Calls the password endpoint to update the password of the current user
+   *
+   * @param credentials Current password along with the new one and its confirmation
+   */
+  async function updatePassword(credentials: UpdatePasswordCredentials) {
+    if (!isAuthenticated.value) {
+      if (!options.redirectIfUnauthenticated) {
+        throw new SanctumStateError('not_authenticated', 'Please login to update the password')
+      }
+      if (options.redirect.onAuthOnly === false || options.redirect.onAuthOnly === currentPath.value) {
+        return
+      }
+      if (options.redirect.onAuthOnly === void 0) {
+        throw new SanctumConfigurationError('sanctum.redirect.onAuthOnly')
+      }
+      await redirectTo(options.redirect.onAuthOnly as string)
+    }
+
+    if (options.endpoints.update_password === void 0) {
+      throw new SanctumConfigurationError('sanctum.endpoints.update_password')
+    }
+
+    await request(options.endpoints.update_password, {
+      method: 'put',
+      body: credentials,
+    })
+  }
+
+  /**
+   * Calls this endpoint to resend the email verification notification
+   */
+  async function resendVerificationEmail() {
+    if (!isAuthenticated.value) {
+      if (!options.redirectIfUnauthenticated) {
+        throw new SanctumStateError('not_authenticated', 'Please login to resend the verification email')
+      }
+      if (options.redirect.onAuthOnly === false || options.redirect.onAuthOnly === currentPath.value) {
+        return
+      }
+      if (options.redirect.onAuthOnly === void 0) {
+        throw new SanctumConfigurationError('sanctum.redirect.onAuthOnly')
+      }
+      await redirectTo(options.redirect.onAuthOnly as string)
+    }
+
+    if (options.endpoints.email_verification_notification === void 0) {
+      throw new SanctumConfigurationError('sanctum.endpoints.email_verification_notification')
+    }
+
+    await request(options.endpoints.email_verification_notification, {
+      method: 'post',
+    })
+  }
+
+  /**
+   * Forwards the signed verification URL to the API and refreshes the user object
+   *
+   * @param id Identifier of the user from the verification link
+   * @param hash Email hash from the verification link
+   * @param query Signature query parameters from the verification link, e.g. `expires` and `signature`
+   */
+  async function verifyEmail(id: string | number, hash: string, query: Record<string, any> = {}) {
+    if (!isAuthenticated.value) {
+      if (!options.redirectIfUnauthenticated) {
+        throw new SanctumStateError('not_authenticated', 'Please login to verify the email')
+      }
+      if (options.redirect.onAuthOnly === false || options.redirect.onAuthOnly === currentPath.value) {
+        return
+      }
+      if (options.redirect.onAuthOnly === void 0) {
+        throw new SanctumConfigurationError('sanctum.redirect.onAuthOnly')
+      }
+      await redirectTo(options.redirect.onAuthOnly as string)
+    }
+
+    if (options.endpoints.verify_email === void 0) {
+      throw new SanctumConfigurationError('sanctum.endpoints.verify_email')
+    }
+
+    const endpoint = [
+      trimTrailingSlash(options.endpoints.verify_email),
+      encodeURIComponent(id),
+      encodeURIComponent(hash),
+    ].join('/')
+
+    await request(endpoint, {
+      method: 'get',
+      query,
+    })
+
+    await refreshIdentity()
   }
 
   /**
@@ -247,24 +644,22 @@ export const useSanctumAuth = <T extends BaseUser>(): SanctumAuth<T> => {
   async function twoFactorQrSvg() {
     if (!isAuthenticated.value) {
       if (!options.redirectIfUnauthenticated) {
-        throw new Error('Please login to configure two factor authentication')
+        throw new SanctumStateError('not_authenticated', 'Please login to configure two factor authentication')
       }
       if (options.redirect.onAuthOnly === false || options.redirect.onAuthOnly === currentPath.value) {
         return
       }
       if (options.redirect.onAuthOnly === void 0) {
-        throw new Error('`sanctum.redirect.onAuthOnly` is not defined')
+        throw new SanctumConfigurationError('sanctum.redirect.onAuthOnly')
       }
-      await nuxtApp.runWithContext(
-        async () => await navigateTo(options.redirect.onAuthOnly as string),
-      )
+      await redirectTo(options.redirect.onAuthOnly as string)
     }
 
     if (options.endpoints.two_factor_qr_code === void 0) {
-      throw new Error('`sanctum.endpoints.two_factor_qr_code` is not defined')
+      throw new SanctumConfigurationError('sanctum.endpoints.two_factor_qr_code')
     }
 
-    return await client(options.endpoints.two_factor_qr_code, {
+    return await request(options.endpoints.two_factor_qr_code, {
       method: 'get',
     })
   }
@@ -275,40 +670,44 @@ export const useSanctumAuth = <T extends BaseUser>(): SanctumAuth<T> => {
   async function confirmTwoFactorAuthentication(credentials: { code?: string, recovery_code?: string }) {
     if (!isAuthenticated.value) {
       if (!options.redirectIfUnauthenticated) {
-        throw new Error('Please login to confirm two factor authentication')
+        throw new SanctumStateError('not_authenticated', 'Please login to confirm two factor authentication')
       }
       if (options.redirect.onAuthOnly === false || options.redirect.onAuthOnly === currentPath.value) {
         return
       }
       if (options.redirect.onAuthOnly === void 0) {
-        throw new Error('`sanctum.redirect.onAuthOnly` is not defined')
+        throw new SanctumConfigurationError('sanctum.redirect.onAuthOnly')
       }
-      await nuxtApp.runWithContext(
-        async () => await navigateTo(options.redirect.onAuthOnly as string),
-      )
+      await redirectTo(options.redirect.onAuthOnly as string)
     }
 
     if (options.endpoints.two_factor_confirm === void 0) {
-      throw new Error('`sanctum.endpoints.two_factor_confirm` is not defined')
+      throw new SanctumConfigurationError('sanctum.endpoints.two_factor_confirm')
     }
 
-    const response = await client(options.endpoints.two_factor_confirm, {
+    const response = await request(options.endpoints.two_factor_confirm, {
       method: 'post',
       body: credentials,
     })
 
+    await nuxtApp.callHook('sanctum:two-factor:confirmed')
+
     if (options.redirect.toRecoveryCodesOnConfirmingTwoFactor === undefined) {
-      throw new Error('`sanctum.redirect.toRecoveryCodesOnConfirmingTwoFactor` is not defined. Set it to '
-        + 'false if no redirect to recovery codes is required')
+      throw new SanctumConfigurationError(
+        'sanctum.redirect.toRecoveryCodesOnConfirmingTwoFactor',
+        '`sanctum.redirect.toRecoveryCodesOnConfirmingTwoFactor` is not defined. Set it to '
+        + 'false if no redirect to recovery codes is required',
+      )
     }
 
     if (options.redirect.toRecoveryCodesOnConfirmingTwoFactor) {
       if (options.endpoints.two_factor_confirm === void 0) {
-        throw new Error('`sanctum.endpoints.two_factor_confirm` is not defined')
+        throw new SanctumConfigurationError('sanctum.endpoints.two_factor_confirm')
       }
     }
 
-    await afterLogin(response, !options.redirect.toRecoveryCodesOnConfirmingTwoFactor)
+    // the user has already been authenticated before the two-factor confirmation
+    await afterLogin(response, !options.redirect.toRecoveryCodesOnConfirmingTwoFactor, false)
 
     if (
       options.redirect.toRecoveryCodesOnConfirmingTwoFactor === false
@@ -321,14 +720,12 @@ export const useSanctumAuth = <T extends BaseUser>(): SanctumAuth<T> => {
       const requestedRoute = currentRoute.value.query.redirect as string | undefined
 
       if (requestedRoute && requestedRoute !== currentPath.value) {
-        await nuxtApp.runWithContext(async () => await navigateTo(requestedRoute))
+        await redirectTo(requestedRoute)
         return
       }
     }
 
-    await nuxtApp.runWithContext(
-      async () => await navigateTo(options.redirect.toRecoveryCodesOnConfirmingTwoFactor as string),
-    )
+    await redirectTo(options.redirect.toRecoveryCodesOnConfirmingTwoFactor as string)
   }
 
   /**
@@ -337,7 +734,7 @@ export const useSanctumAuth = <T extends BaseUser>(): SanctumAuth<T> => {
   async function twoFactorChallenge(credentials: { code?: string, recovery_code?: string }) {
     if (isAuthenticated.value) {
       if (!options.redirectIfAuthenticated) {
-        throw new Error('User is already authenticated')
+        throw new SanctumStateError('already_authenticated', 'User is already authenticated')
       }
 
       if (
@@ -348,19 +745,17 @@ export const useSanctumAuth = <T extends BaseUser>(): SanctumAuth<T> => {
       }
 
       if (options.redirect.onLogin === undefined) {
-        throw new Error('`sanctum.redirect.onLogin` is not defined')
+        throw new SanctumConfigurationError('sanctum.redirect.onLogin')
       }
 
-      await nuxtApp.runWithContext(
-        async () => await navigateTo(options.redirect.onLogin as string),
-      )
+      await redirectTo(options.redirect.onLogin as string)
     }
 
     if (options.endpoints.two_factor_challenge === void 0) {
-      throw new Error('`sanctum.endpoints.two_factor_challenge` is not defined')
+      throw new SanctumConfigurationError('sanctum.endpoints.two_factor_challenge')
     }
 
-    const response = await client(options.endpoints.two_factor_challenge, {
+    const response = await request(options.endpoints.two_factor_challenge, {
       method: 'post',
       body: credentials,
     })
@@ -374,24 +769,22 @@ export const useSanctumAuth = <T extends BaseUser>(): SanctumAuth<T> => {
   async function getRecoveryCodes(): Promise<string[]> {
     if (!isAuthenticated.value) {
       if (!options.redirectIfUnauthenticated) {
-        throw new Error('Please login to retrieve Two Factor recovery codes')
+        throw new SanctumStateError('not_authenticated', 'Please login to retrieve Two Factor recovery codes')
       }
       if (options.redirect.onAuthOnly === false || options.redirect.onAuthOnly === currentPath.value) {
         return []
       }
       if (options.redirect.onAuthOnly === void 0) {
-        throw new Error('`sanctum.redirect.onAuthOnly` is not defined')
+        throw new SanctumConfigurationError('sanctum.redirect.onAuthOnly')
       }
-      await nuxtApp.runWithContext(
-        async () => await navigateTo(options.redirect.onAuthOnly as string),
-      )
+      await redirectTo(options.redirect.onAuthOnly as string)
     }
 
     if (options.endpoints.two_factor_recovery_codes === void 0) {
-      throw new Error('`sanctum.endpoints.two_factor_recovery_codes` is not defined')
+      throw new SanctumConfigurationError('sanctum.endpoints.two_factor_recovery_codes')
     }
 
-    return await client(options.endpoints.two_factor_recovery_codes, {
+    return await request(options.endpoints.two_factor_recovery_codes, {
       method: 'get',
     })
   }
@@ -402,52 +795,112 @@ export const useSanctumAuth = <T extends BaseUser>(): SanctumAuth<T> => {
   async function regenerateRecoveryCodes(): Promise<string[]> {
     if (!isAuthenticated.value) {
       if (!options.redirectIfUnauthenticated) {
-        throw new Error('Please login to generate two-factor recovery codes')
+        throw new SanctumStateError('not_authenticated', 'Please login to generate two-factor recovery codes')
       }
       if (options.redirect.onAuthOnly === false || options.redirect.onAuthOnly === currentPath.value) {
         return []
       }
       if (options.redirect.onAuthOnly === void 0) {
-        throw new Error('`sanctum.redirect.onAuthOnly` is not defined')
+        throw new SanctumConfigurationError('sanctum.redirect.onAuthOnly')
       }
-      await nuxtApp.runWithContext(
-        async () => await navigateTo(options.redirect.onAuthOnly as string),
-      )
+      await redirectTo(options.redirect.onAuthOnly as string)
     }
 
     if (options.endpoints.two_factor_recovery_codes === void 0) {
-      throw new Error('`sanctum.endpoints.two_factor_recovery_codes` is not defined')
+      throw new SanctumConfigurationError('sanctum.endpoints.two_factor_recovery_codes')
     }
 
-    return await client(options.endpoints.two_factor_recovery_codes, {
+    return await request(options.endpoints.two_factor_recovery_codes, {
       method: 'post',
     })
   }
 
+  /**
+   * Calls this endpoint to disable two-factor authentication for the user
+   *
+   * @param credentials Credentials to confirm before disabling when `sanctum.twoFactor.confirmPassword` is enabled
+   * @param credentials.password Current password of the user
+   */
+  async function disableTwoFactorAuthentication(credentials?: { password: string }) {
+    if (!isAuthenticated.value) {
+      if (!options.redirectIfUnauthenticated) {
+        throw new SanctumStateError('not_authenticated', 'Please login to disable two factor authentication')
+      }
+      if (options.redirect.onAuthOnly === false || options.redirect.onAuthOnly === currentPath.value) {
+        return
+      }
+      if (options.redirect.onAuthOnly === void 0) {
+        throw new SanctumConfigurationError('sanctum.redirect.onAuthOnly')
+      }
+      await redirectTo(options.redirect.onAuthOnly as string)
+    }
+
+    // disabling while enforced would lock the user out of `sanctum:two-factor-auth` routes
+    if (options.twoFactor.enforce) {
+      throw new SanctumStateError('two_factor_enforced', 'Two factor authentication is enforced and cannot be disabled')
+    }
+
+    if (options.endpoints.two_factor_disable === void 0) {
+      throw new SanctumConfigurationError('sanctum.endpoints.two_factor_disable')
+    }
+
+    if (options.twoFactor.confirmPassword && !isPasswordConfirmed.value) {
+      if (credentials === undefined) {
+        throw new SanctumStateError('password_required', 'Password is required to disable two factor authentication')
+      }
+
+      await confirmPassword(credentials)
+    }
+
+    await request(options.endpoints.two_factor_disable, {
+      method: 'delete',
+    })
+
+    await refreshIdentity()
+
+    if (
+      options.redirect.onTwoFactorDisabled === false
+      || options.redirect.onTwoFactorDisabled === currentPath.value
+    ) {
+      return
+    }
+
+    if (options.redirect.onTwoFactorDisabled === undefined) {
+      throw new SanctumConfigurationError('sanctum.redirect.onTwoFactorDisabled')
+    }
+
+    await redirectTo(options.redirect.onTwoFactorDisabled as string)
+  }
+
   /**
    * Calls the logout endpoint and clears the user object
    */
   async function logout() {
     if (!isAuthenticated.value) {
-      throw new Error('User is not authenticated')
+      throw new SanctumStateError('not_authenticated', 'User is not authenticated')
     }
 
     if (options.endpoints.logout === undefined) {
-      throw new Error('`sanctum.endpoints.logout` is not defined')
+      throw new SanctumConfigurationError('sanctum.endpoints.logout')
     }
 
-    await client(options.endpoints.logout, { method: 'post' })
+    await request(options.endpoints.logout, { method: 'post' })
 
     user.value = null
+    passwordConfirmedAt.value = null
+    sessionExpiresAt.value = null
 
     if (options.mode === 'token') {
       if (appConfig.tokenStorage === undefined) {
-        throw new Error('`sanctum.tokenStorage` is not defined in app.config.ts')
+        throw new SanctumConfigurationError('sanctum.tokenStorage', '`sanctum.tokenStorage` is not defined in app.config.ts')
       }
 
       await appConfig.tokenStorage.set(nuxtApp, undefined)
     }
 
+    broadcastSyncEvent(options, { type: 'logout' })
+    await nuxtApp.callHook('sanctum:logout')
+
     if (
       options.redirect.onLogout === false
       || currentPath.value === options.redirect.onLogout
@@ -456,37 +909,67 @@ export const useSanctumAuth = <T extends BaseUser>(): SanctumAuth<T> => {
     }
 
     if (options.redirect.onLogout === undefined) {
-      throw new Error('`sanctum.redirect.onLogout` is not defined')
+      throw new SanctumConfigurationError('sanctum.redirect.onLogout')
     }
 
-    await nuxtApp.runWithContext(
-      async () => await navigateTo(options.redirect.onLogout as string),
-    )
+    await redirectTo(options.redirect.onLogout as string)
   }
 
   /**
-   * After login successfully handle the response and save the token if needed
+   * Saves the token returned by the API to the storage when using token mode
    */
-  async function afterLogin(response: Record<string, any>, redirect: boolean = true) {
-    if (options.mode === 'token') {
-      if (appConfig.tokenStorage === undefined) {
-        throw new Error('`sanctum.tokenStorage` is not defined in app.config.ts')
-      }
+  async function storeToken(response: Record<string, any>) {
+    if (options.mode !== 'token') {
+      return
+    }
 
-      if (response.token === undefined) {
-        throw new Error('Token was not returned from the API')
-      }
+    if (appConfig.tokenStorage === undefined) {
+      throw new SanctumConfigurationError('sanctum.tokenStorage', '`sanctum.tokenStorage` is not defined in app.config.ts')
+    }
 
-      await appConfig.tokenStorage.set(nuxtApp, response.token)
+    if (response.token === undefined) {
+      throw new SanctumStateError('token_missing', 'Token was not returned from the API')
     }
 
+    await appConfig.tokenStorage.set(nuxtApp, response.token)
+
+    // HttpOnly cookie is already shared between tabs and must not be exposed to scripts
+    if (options.serverTokenStorage.enabled) {
+      return
+    }
+
+    // the token itself is not shared, it may pass through localStorage without BroadcastChannel
+    broadcastSyncEvent(options, { type: 'token' })
+  }
+
+  /**
+   * Notifies listeners and other tabs once the authentication is completed
+   */
+  async function notifyLogin() {
+    broadcastSyncEvent(options, { type: 'login', user: user.value })
+    await nuxtApp.callHook('sanctum:login', user.value)
+  }
+
+  /**
+   * After login successfully handle the response and save the token if needed
+   *
+   * @param response Response of the authentication endpoint
+   * @param redirect Whether to skip the redirect to `onLogin` route
+   * @param notify Whether the user has just been authenticated, false for already authenticated users
+   */
+  async function afterLogin(response: Record<string, any>, redirect: boolean = true, notify: boolean = true) {
+    await storeToken(response)
     await refreshIdentity()
 
+    if (notify) {
+      await notifyLogin()
+    }
+
     if (options.redirect.keepRequestedRoute) {
       const requestedRoute = currentRoute.value.query.redirect as string | undefined
 
       if (requestedRoute && requestedRoute !== currentPath.value) {
-        await nuxtApp.runWithContext(async () => await navigateTo(requestedRoute))
+        await redirectTo(requestedRoute)
         return
       }
     }
@@ -503,12 +986,10 @@ export const useSanctumAuth = <T extends BaseUser>(): SanctumAuth<T> => {
     }
 
     if (options.redirect.onLogin === undefined) {
-      throw new Error('`sanctum.redirect[redirectTo` is not defined')
+      throw new SanctumConfigurationError('sanctum.redirect.onLogin')
     }
 
-    await nuxtApp.runWithContext(
-      async () => await navigateTo(options.redirect.onLogin as string),
-    )
+    await redirectTo(options.redirect.onLogin as string)
   }
 
   return {
@@ -516,15 +997,30 @@ export const useSanctumAuth = <T extends BaseUser>(): SanctumAuth<T> => {
     isAuthenticated,
     isVerified,
     isAuthenticatedWithTwoFactor,
+    isPasswordConfirmed,
+    identityStatus,
+    lastFetchedAt,
+    sessionExpiresAt,
+    throttledUntil,
     init,
     login,
+    register,
+    requestPasswordReset,
+    resetPassword,
     enableTwoFactorAuthentication,
     confirmPassword,
+    checkPasswordConfirmation,
+    withPasswordConfirmation,
+    updateProfile,
+    updatePassword,
+    resendVerificationEmail,
+    verifyEmail,
     twoFactorQrSvg,
     confirmTwoFactorAuthentication,
     twoFactorChallenge,
     getRecoveryCodes,
     regenerateRecoveryCodes,
+    disableTwoFactorAuthentication,
     logout,
     refreshIdentity,
   } as SanctumAuth<T>
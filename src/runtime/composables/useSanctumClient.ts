@@ -1,7 +1,20 @@
 import type { $Fetch } from 'ofetch'
 import { useNuxtApp } from '#app'
 
-export const useSanctumClient = (): $Fetch => {
+export interface SanctumClientOptions {
+  /**
+   * Signal to abort all requests made by the returned client, including pending retries.
+   */
+  signal?: AbortSignal
+}
+
+export const useSanctumClient = (clientOptions: SanctumClientOptions = {}): $Fetch => {
   const { $sanctumClient } = useNuxtApp()
-  return $sanctumClient as $Fetch
+  const client = $sanctumClient as $Fetch
+
+  if (clientOptions.signal === undefined) {
+    return client
+  }
+
+  return client.create({ signal: clientOptions.signal })
 }
@@ -0,0 +1,218 @@
+import { computed, reactive, ref, shallowRef, toRaw, type ComputedRef, type Reactive, type Ref } from 'vue'
+import { SanctumConfigurationError, getValidationErrors, toSanctumError, type SanctumValidationErrors } from '../errors'
+import { precognitiveRequest, toFetchOptions, type FormMethod } from '../utils/precognition'
+import { useSanctumClient } from './useSanctumClient'
+
+const RECENTLY_SUCCESSFUL_TIMEOUT = 2000
+
+type FormData = Record<string, unknown>
+type FormErrors<T> = Partial<Record<keyof T | (string & {}), string>>
+
+export interface SanctumFormOptions {
+  /**
+   * Endpoint to validate the form against with Laravel Precognition.
+   */
+  precognition?: {
+    method: FormMethod
+    url: string
+  }
+}
+
+export interface SanctumForm<T extends FormData> {
+  data: Reactive<T>
+  processing: Ref<boolean>
+  validating: Ref<boolean>
+  errors: Ref<FormErrors<T>>
+  hasErrors: ComputedRef<boolean>
+  recentlySuccessful: Ref<boolean>
+  reset: (...fields: (keyof T)[]) => void
+  clearErrors: (...fields: (keyof T)[]) => void
+  validate: (...fields: (keyof T)[]) => Promise<boolean>
+  valid: (field: keyof T) => boolean
+  invalid: (field: keyof T) => boolean
+  submit: {
+    <R = any>(method: FormMethod, url: string): Promise<R>
+    <R = any>(action: (data: T) => Promise<R>): Promise<R>
+  }
+}
+
+/**
+ * Provides the form state with Laravel validation errors mapped to the fields.
+ * Validation errors are stored in `errors`, all errors are rethrown to the caller.
+ *
+ * @param initialData Initial values of the form fields
+ * @param options Form options, e.g. Precognition endpoint
+ */
+export const useSanctumForm = <T extends FormData>(
+  initialData: T,
+  options: SanctumFormOptions = {},
+): SanctumForm<T> => {
+  const client = useSanctumClient()
+
+  const defaults = structuredClone(toRaw(initialData))
+  const data = reactive(structuredClone(defaults))
+  const processing = ref(false)
+  const validating = ref(false)
+  const validatedFields = shallowRef(new Set<string>())
+  const errors = ref({}) as Ref<FormErrors<T>>
+  const recentlySuccessful = ref(false)
+
+  const hasErrors = computed(() => Object.keys(errors.value).length > 0)
+
+  let recentlySuccessfulTimeout: ReturnType<typeof setTimeout> | undefined
+
+  /**
+   * Restores the initial values of the given fields or the whole form
+   *
+   * @param fields Fields to reset, all fields if none are given
+   */
+  function reset(...fields: (keyof T)[]) {
+    const keys = fields.length > 0 ? fields : Object.keys(defaults)
+    const values = structuredClone(defaults)
+
+    for (const key of keys) {
+      (data as FormData)[key as string] = values[key]
+    }
+
+    validatedFields.value = new Set(
+      [...validatedFields.value].filter(field => !keys.includes(field)),
+    )
+  }
+
+  /**
+   * Removes validation errors of the given fields or the whole form
+   *
+   * @param fields Fields to clear, all fields if none are given
+   */
+  function clearErrors(...fields: (keyof T)[]) {
+    if (fields.length === 0) {
+      errors.value = {}
+      return
+    }
+
+    errors.value = Object.fromEntries(
+      Object.entries(errors.value).filter(([field]) => !fields.includes(field)),
+    ) as FormErrors<T>
+  }
+
+  function toFormErrors(validationErrors: SanctumValidationErrors): FormErrors<T> {
+    // only the first message of each field is kept, the same way as Inertia does
+    return Object.fromEntries(
+      Object.entries(validationErrors).map(([field, messages]) => [field, messages[0]]),
+    ) as FormErrors<T>
+  }
+
+  function markAsSuccessful() {
+    clearTimeout(recentlySuccessfulTimeout)
+
+    recentlySuccessful.value = true
+    recentlySuccessfulTimeout = setTimeout(
+      () => recentlySuccessful.value = false,
+      RECENTLY_SUCCESSFUL_TIMEOUT,
+    )
+  }
+
+  /**
+   * Submits the form data to the API endpoint or passes it to the given action, e.g. `login`
+   *
+   * @param methodOrAction HTTP method or action to call with the form data
+   * @param url API endpoint to submit the form data to
+   */
+  async function submit<R = any>(
+    methodOrAction: FormMethod | ((data: T) => Promise<R>),
+    url?: string,
+  ): Promise<R> {
+    const payload = structuredClone(toRaw(data)) as T
+
+    processing.value = true
+    recentlySuccessful.value = false
+
+    try {
+      const response = typeof methodOrAction === 'function'
+        ? await methodOrAction(payload)
+        : await client<R>(url!, toFetchOptions(methodOrAction, payload))
+
+      clearErrors()
+      markAsSuccessful()
+
+      return response
+    }
+    catch (error) {
+      errors.value = toFormErrors(getValidationErrors(error) ?? {})
+
+      throw toSanctumError(error)
+    }
+    finally {
+      processing.value = false
+    }
+  }
+
+  /**
+   * Validates the given fields or the whole form against the Precognition endpoint
+   *
+   * @param fields Fields to validate, all fields if none are given
+   * @returns Whether the validated fields are valid
+   */
+  async function validate(...fields: (keyof T)[]): Promise<boolean> {
+    if (options.precognition === undefined) {
+      throw new SanctumConfigurationError('precognition', '`precognition` endpoint is not defined in useSanctumForm options')
+    }
+
+    const keys = (fields.length > 0 ? fields : Object.keys(defaults)) as string[]
+    const payload = structuredClone(toRaw(data)) as T
+
+    validating.value = true
+
+    try {
+      const validationErrors = await precognitiveRequest(
+        client,
+        options.precognition.method,
+        options.precognition.url,
+        payload,
+        fields as string[],
+      )
+
+      clearErrors(...keys)
+      errors.value = { ...errors.value, ...toFormErrors(validationErrors) }
+      validatedFields.value = new Set([...validatedFields.value, ...keys])
+
+      return keys.every(key => errors.value[key] === undefined)
+    }
+    finally {
+      validating.value = false
+    }
+  }
+
+  /**
+   * Checks whether the field has been validated and has no errors
+   *
+   * @param field Field to check
+   */
+  function valid(field: keyof T): boolean {
+    return validatedFields.value.has(field as string) && errors.value[field] === undefined
+  }
+
+  /**
+   * Checks whether the field has validation errors
+   *
+   * @param field Field to check
+   */
+  function invalid(field: keyof T): boolean {
+    return errors.value[field] !== undefined
+  }
+
+  return {
+    data,
+    processing,
+    validating,
+    errors,
+    hasErrors,
+    recentlySuccessful,
+    reset,
+    clearErrors,
+    validate,
+    valid,
+    invalid,
+    submit,
+  }
+}
@@ -0,0 +1,36 @@
+import { computed, type ComputedRef, type Ref } from 'vue'
+import { useIdleState, registerActivity } from '../utils/idle'
+import { useSanctumConfig } from './useSanctumConfig'
+
+export interface SanctumIdle {
+  isIdle: ComputedRef<boolean>
+  remainingSeconds: Ref<number | null>
+  stayActive: () => void
+}
+
+/**
+ * Provides the state of the user inactivity tracker.
+ * Requires `sanctum.idle.enabled` to be set in the module options.
+ */
+export const useSanctumIdle = (): SanctumIdle => {
+  const options = useSanctumConfig()
+  const state = useIdleState()
+
+  const isIdle = computed(() => {
+    return state.remainingSeconds.value !== null
+      && state.remainingSeconds.value <= (options.idle.warning ?? 0)
+  })
+
+  /**
+   * Resets the inactivity countdown, e.g. when the user confirms the warning
+   */
+  function stayActive() {
+    registerActivity(options, state, true)
+  }
+
+  return {
+    isIdle,
+    remainingSeconds: state.remainingSeconds,
+    stayActive,
+  }
+}
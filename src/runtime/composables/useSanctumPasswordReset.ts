@@ -0,0 +1,60 @@
+import { computed, type ComputedRef } from 'vue'
+import { SanctumStateError } from '../errors'
+import { useSanctumAuth } from './useSanctumAuth'
+import { useRoute } from '#app'
+
+export interface SanctumPasswordReset {
+  token: ComputedRef<string | undefined>
+  email: ComputedRef<string | undefined>
+  resetPassword: (
+    credentials: { password: string, password_confirmation: string },
+    autoLogin?: boolean,
+  ) => Promise<void>
+}
+
+/**
+ * Provides the reset token and email from the link sent by Laravel.
+ * Intended to be used on guest-only pages, e.g. with `sanctum:guest` middleware.
+ */
+export const useSanctumPasswordReset = (): SanctumPasswordReset => {
+  const route = useRoute()
+  const { resetPassword: resetUserPassword } = useSanctumAuth()
+
+  const token = computed(() => {
+    const value = route.query.token ?? route.params.token
+    return typeof value === 'string' ? value : undefined
+  })
+
+  const email = computed(() => {
+    const value = route.query.email
+    return typeof value === 'string' ? value : undefined
+  })
+
+  /**
+   * Resets the password using the token and email from the current route
+   *
+   * @param credentials New password and its confirmation
+   * @param credentials.password New password of the user
+   * @param credentials.password_confirmation Confirmation of the new password
+   * @param autoLogin Whether to log the user in with the new password after reset
+   */
+  async function resetPassword(
+    credentials: { password: string, password_confirmation: string },
+    autoLogin: boolean = false,
+  ) {
+    if (!token.value || !email.value) {
+      throw new SanctumStateError('reset_token_missing', 'Password reset `token` or `email` is missing in the route query')
+    }
+
+    await resetUserPassword(
+      { token: token.value, email: email.value, ...credentials },
+      autoLogin,
+    )
+  }
+
+  return {
+    token,
+    email,
+    resetPassword,
+  }
+}
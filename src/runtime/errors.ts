@@ -0,0 +1,145 @@
+import { FetchError } from 'ofetch'
+
+/**
+ * Stable codes to distinguish errors thrown by the module.
+ */
+export type SanctumErrorCode =
+  | 'configuration_missing'
+  | 'already_authenticated'
+  | 'not_authenticated'
+  | 'two_factor_enforced'
+  | 'password_required'
+  | 'token_missing'
+  | 'reset_token_missing'
+  | 'request_throttled'
+  | 'precognition_unsupported'
+  | 'api_error'
+  | 'api_unauthenticated'
+  | 'api_csrf_mismatch'
+  | 'api_password_confirmation_required'
+  | 'api_validation_failed'
+  | 'api_throttled'
+
+export type SanctumStateErrorCode = Extract<
+  SanctumErrorCode,
+  | 'already_authenticated'
+  | 'not_authenticated'
+  | 'two_factor_enforced'
+  | 'password_required'
+  | 'token_missing'
+  | 'reset_token_missing'
+  | 'request_throttled'
+>
+
+const API_ERROR_CODES: Record<number, SanctumErrorCode> = {
+  401: 'api_unauthenticated',
+  419: 'api_csrf_mismatch',
+  422: 'api_validation_failed',
+  423: 'api_password_confirmation_required',
+  429: 'api_throttled',
+}
+
+/**
+ * Base class for all errors thrown by the module.
+ */
+export class SanctumError extends Error {
+  readonly code: SanctumErrorCode
+
+  constructor(code: SanctumErrorCode, message: string, options?: ErrorOptions) {
+    super(message, options)
+    this.name = 'SanctumError'
+    this.code = code
+  }
+}
+
+/**
+ * Thrown when a required module option or app config value is not defined.
+ */
+export class SanctumConfigurationError extends SanctumError {
+  /**
+   * Path of the missing option, e.g. `sanctum.redirect.onLogin`.
+   */
+  readonly key: string
+
+  constructor(key: string, message: string = `\`${key}\` is not defined`) {
+    super('configuration_missing', message)
+    this.name = 'SanctumConfigurationError'
+    this.key = key
+  }
+}
+
+/**
+ * Thrown when the action is not allowed in the current authentication state.
+ */
+export class SanctumStateError extends SanctumError {
+  constructor(code: SanctumStateErrorCode, message: string) {
+    super(code, message)
+    this.name = 'SanctumStateError'
+  }
+}
+
+/**
+ * Thrown when the API responds with an error, wraps the original `FetchError` as `cause`.
+ */
+export class SanctumApiError<T = any> extends SanctumError {
+  /**
+   * HTTP status of the API response, undefined for network errors.
+   */
+  readonly status?: number
+  /**
+   * Parsed body of the API response.
+   */
+  readonly data?: T
+
+  declare readonly cause: FetchError<T>
+
+  constructor(error: FetchError<T>) {
+    const status = error.response?.status
+
+    super(
+      (status && API_ERROR_CODES[status]) || 'api_error',
+      error.message,
+      { cause: error },
+    )
+
+    this.name = 'SanctumApiError'
+    this.status = status
+    this.data = error.data
+  }
+}
+
+/**
+ * Wrap `FetchError` into `SanctumApiError`, other errors are returned as is.
+ * @param error Error thrown by the client
+ * @returns Error to rethrow
+ */
+export function toSanctumError(error: unknown): unknown {
+  return error instanceof FetchError ? new SanctumApiError(error) : error
+}
+
+/**
+ * Validation messages keyed by field, as returned by Laravel with 422 status.
+ */
+export type SanctumValidationErrors = Record<string, string[]>
+
+/**
+ * Extract validation messages from Laravel's `{ message, errors }` payload.
+ * @param error Error thrown by the client or the auth methods
+ * @returns Messages keyed by field or undefined if the error is not a validation error
+ */
+export function getValidationErrors(error: unknown): SanctumValidationErrors | undefined {
+  const apiError = toSanctumError(error)
+
+  if (!(apiError instanceof SanctumApiError) || apiError.status !== 422) {
+    return undefined
+  }
+
+  const errors: SanctumValidationErrors = {}
+  const payload = apiError.data?.errors ?? {}
+
+  for (const [field, messages] of Object.entries<unknown>(payload)) {
+    errors[field] = (Array.isArray(messages) ? messages : [messages]).map(String)
+  }
+
+  return errors
+}
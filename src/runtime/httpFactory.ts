@@ -3,14 +3,24 @@ import type { ConsolaInstance } from 'consola'
 import { useSanctumUser } from './composables/useSanctumUser'
 import { useSanctumConfig } from './composables/useSanctumConfig'
 import { useSanctumAppConfig } from './composables/useSanctumAppConfig'
-import handleRequestCookies from './interceptors/cookie/request'
+import handleRequestCookies, { initCsrfCookie } from './interceptors/cookie/request'
 import handleResponseHeaders from './interceptors/cookie/response'
 import handleRequestHeaders from './interceptors/common/request'
 import handleRequestTokenHeader from './interceptors/token/request'
 import validateResponseHeaders from './interceptors/common/response'
 import type { SanctumAppConfig, SanctumInterceptor } from './types/config'
 import type { ModuleOptions } from './types/options'
-import { navigateTo, type NuxtApp } from '#app'
+import { PASSWORD_CONFIRMED_AT_KEY } from './utils/constants'
+import { updateSessionExpiry, useSessionExpiresAt } from './utils/session'
+import { resolveEndpoint, updateThrottle, useThrottledUntil } from './utils/throttle'
+import { applyRetryPolicy, resolveRetryPolicy } from './utils/retry'
+import { resolveBaseUrl } from './utils/baseUrl'
+import { SanctumStateError } from './errors'
+import { navigateTo, useState, type NuxtApp } from '#app'
+
+type ReplayableFetchOptions = FetchOptions & {
+  replayedStatuses?: number[]
+}
 
 function useClientInterceptors(
   options: ModuleOptions,
@@ -23,7 +33,7 @@ function useClientInterceptors(
 
   request.push(handleRequestHeaders)
 
-  if (options.mode === 'cookie') {
+  if (options.mode !== 'token') {
     request.push(handleRequestCookies)
     response.push(handleResponseHeaders)
   }
@@ -56,23 +66,91 @@ function determineCredentialsMode() {
   return 'include'
 }
 
+/**
+ * Check whether the failed request has not been replayed for the same status yet
+ * @param ctx Fetch context
+ * @returns Whether the request can be replayed
+ */
+function canReplayRequest(ctx: FetchContext): boolean {
+  const options = ctx.options as ReplayableFetchOptions
+
+  return !options.replayedStatuses?.includes(ctx.response!.status)
+}
+
+/**
+ * Schedule a single replay of the failed request using the ofetch retry mechanism
+ * @param ctx Fetch context
+ */
+function replayRequest(ctx: FetchContext): void {
+  const options = ctx.options as ReplayableFetchOptions
+  const status = ctx.response!.status
+
+  options.replayedStatuses = [...(options.replayedStatuses ?? []), status]
+  options.retry = 1
+  options.retryDelay = 0
+  options.retryStatusCodes = [status]
+}
+
 export function createHttpClient(nuxtApp: NuxtApp, logger: ConsolaInstance): $Fetch {
   const options = useSanctumConfig()
   const user = useSanctumUser()
   const appConfig = useSanctumAppConfig()
+  const passwordConfirmedAt = useState<number | null>(PASSWORD_CONFIRMED_AT_KEY, () => null)
+  const sessionExpiresAt = useSessionExpiresAt()
+  const throttledUntil = useThrottledUntil()
+  const retryPolicy = resolveRetryPolicy(options.client.retry)
+  const baseUrl = resolveBaseUrl(nuxtApp, options)
 
   const [
     requestInterceptors,
     responseInterceptors,
   ] = useClientInterceptors(options, appConfig)
 
+  let pendingPasswordConfirmation: Promise<boolean> | null = null
+
+  /**
+   * Ask the user to confirm the password, concurrent requests share the same confirmation
+   * @returns Whether the password has been confirmed
+   */
+  async function requestPasswordConfirmation(): Promise<boolean> {
+    if (appConfig.onPasswordConfirmationRequired === undefined) {
+      logger.warn('`sanctum.onPasswordConfirmationRequired` is not defined in app.config.ts')
+      return false
+    }
+
+    pendingPasswordConfirmation ??= nuxtApp
+      .runWithContext(async () => await appConfig.onPasswordConfirmationRequired!(nuxtApp))
+      .catch((error) => {
+        // the original 423 response is returned to the caller instead of the handler error
+        logger.error('Password confirmation handler has failed', error)
+        return false
+      })
+      .finally(() => {
+        pendingPasswordConfirmation = null
+      })
+
+    return await pendingPasswordConfirmation
+  }
+
   const httpOptions: FetchOptions = {
-    baseURL: options.baseUrl,
+    baseURL: baseUrl,
     credentials: determineCredentialsMode(),
     redirect: 'manual',
-    retry: options.client.retry === true ? 1 : options.client.retry, // false or number
 
     async onRequest(context: FetchContext): Promise<void> {
+      applyRetryPolicy(context, retryPolicy, options.client.timeout)
+
+      if (options.client.blockThrottledRequests) {
+        const endpoint = resolveEndpoint(context.request, baseUrl)
+        const until = throttledUntil.value[endpoint] ?? 0
+
+        if (until > Date.now()) {
+          const seconds = Math.ceil((until - Date.now()) / 1000)
+
+          throw new SanctumStateError('request_throttled', `Too many requests to "${endpoint}", retry in ${seconds} seconds`)
+        }
+      }
+
       for (const interceptor of requestInterceptors) {
         await nuxtApp.runWithContext(async () => {
           await interceptor(nuxtApp, context, logger)
@@ -94,22 +172,66 @@ export function createHttpClient(nuxtApp: NuxtApp, logger: ConsolaInstance): $Fe
         })
       }
 
+      updateSessionExpiry(context, options, sessionExpiresAt, user)
+      updateThrottle(context, baseUrl, throttledUntil)
+
       logger.trace(
         `Response headers for "${context.request.toString()}"`,
         context.response ? Object.fromEntries(context.response.headers.entries()) : {},
       )
     },
 
-    async onResponseError({ response }): Promise<void> {
+    async onResponseError(context: FetchContext): Promise<void> {
+      const response = context.response!
+
+      if (response.status === 423) {
+        passwordConfirmedAt.value = null
+
+        if (
+          import.meta.client
+            && options.passwordConfirmation.retryOnLocked
+            && canReplayRequest(context)
+            && await requestPasswordConfirmation()
+        ) {
+          logger.debug('Password has been confirmed, replaying the request')
+          replayRequest(context)
+        }
+
+        return
+      }
+
       if (response.status === 419) {
+        await nuxtApp.callHook('sanctum:csrf:mismatch', context)
+
+        if (
+          import.meta.client
+            && options.mode !== 'token'
+            && options.csrf.retryOnMismatch
+            && canReplayRequest(context)
+        ) {
+          logger.debug('CSRF token mismatch, refreshing the cookie and replaying the request')
+          await initCsrfCookie(nuxtApp, options, logger)
+          replayRequest(context)
+          return
+        }
+
         logger.warn('CSRF token mismatch, check your API configuration')
         return
       }
 
+      if (response.status === 429) {
+        const endpoint = resolveEndpoint(context.request, baseUrl)
+
+        logger.warn(`Too many requests to "${endpoint}"`, { until: throttledUntil.value[endpoint] })
+        return
+      }
+
       if (response.status === 401) {
         if (user.value !== null) {
           logger.warn('User session is not set in API or expired, resetting identity')
           user.value = null
+
+          await nuxtApp.callHook('sanctum:unauthenticated', context)
         }
 
         if (
@@ -117,6 +239,7 @@ export function createHttpClient(nuxtApp: NuxtApp, logger: ConsolaInstance): $Fe
             && options.redirectIfUnauthenticated
             && options.redirect.onAuthOnly
         ) {
+          await nuxtApp.callHook('sanctum:redirect', options.redirect.onAuthOnly)
           await nuxtApp.runWithContext(
             async () =>
               await navigateTo(
@@ -1,6 +1,7 @@
 import type { FetchContext } from 'ofetch'
 import type { ConsolaInstance } from 'consola'
 import type { ModuleOptions } from '../../types/options'
+import { isProxyEnabled } from '../../utils/baseUrl'
 import { type NuxtApp, useRequestURL } from '#app'
 
 type HeaderValidator = (headers: Headers, config: ModuleOptions, logger: ConsolaInstance) => void
@@ -36,7 +37,8 @@ const validateCredentialsHeader: HeaderValidator = (
   config: ModuleOptions,
   logger: ConsolaInstance,
 ): void => {
-  if (config.mode == 'token') {
+  // same-origin requests of the proxy mode are not subject to CORS
+  if (config.mode == 'token' || config.mode == 'proxy') {
     return
   }
 
@@ -52,6 +54,10 @@ const validateOriginHeader: HeaderValidator = (
   config: ModuleOptions,
   logger: ConsolaInstance,
 ): void => {
+  if (isProxyEnabled(config)) {
+    return
+  }
+
   const allowOrigin = headers.get('access-control-allow-origin')
   const currentOrigin = config?.origin ?? useRequestURL().origin
 
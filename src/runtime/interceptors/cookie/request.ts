@@ -2,14 +2,20 @@ import type { FetchContext } from 'ofetch'
 import type { ConsolaInstance } from 'consola'
 import { useSanctumConfig } from '../../composables/useSanctumConfig'
 import type { ModuleOptions } from '../../types/options'
-import { appendRequestHeaders } from '../../utils/headers'
-import { type NuxtApp, useCookie, useRequestHeaders, useRequestURL } from '#app'
+import { appendRequestHeaders, createClientIpHeaders, filterCookies } from '../../utils/headers'
+import { resolveBaseUrl } from '../../utils/baseUrl'
+import { SanctumConfigurationError } from '../../errors'
+import { type NuxtApp, useCookie, useRequestEvent, useRequestHeaders, useRequestURL } from '#app'
 
 const SECURE_METHODS = new Set(['post', 'delete', 'put', 'patch'])
 const COOKIE_OPTIONS: { readonly: true } = { readonly: true }
 
+const pendingCsrfRequests = new WeakMap<NuxtApp, Promise<void>>()
+
 /**
- * Pass all cookies, headers and referrer from the client to the API
+ * Pass all cookies, headers and referrer from the client to the API.
+ * Origin and Referer always point to the public application URL,
+ * even when SSR requests are sent to the internal `serverBaseUrl`.
  * @param headers Headers collection to extend
  * @param config Module configuration
  * @param logger Logger instance
@@ -20,14 +26,37 @@ function useServerHeaders(
   config: ModuleOptions,
   logger: ConsolaInstance,
 ): Headers {
-  const clientHeaders = useRequestHeaders(['cookie', 'user-agent'])
+  const extraHeaders = (config.serverHeaders.headers ?? []).map(name => name.toLowerCase())
+  const clientHeaders: Record<string, string | undefined> = useRequestHeaders([
+    'cookie',
+    'user-agent',
+    'accept-language',
+    'x-forwarded-for',
+    'x-real-ip',
+    ...extraHeaders,
+  ])
   const origin = config.origin ?? useRequestURL().origin
+  const cookie = clientHeaders.cookie && filterCookies(clientHeaders.cookie, config)
 
   const headersToAdd = {
     Referer: origin,
     Origin: origin,
-    ...(clientHeaders.cookie && { Cookie: clientHeaders.cookie }),
+    ...(cookie && { Cookie: cookie }),
     ...(clientHeaders['user-agent'] && { 'User-Agent': clientHeaders['user-agent'] }),
+    ...(config.serverHeaders.forwardAcceptLanguage && clientHeaders['accept-language'] && {
+      'Accept-Language': clientHeaders['accept-language'],
+    }),
+    ...(config.serverHeaders.forwardClientIp && createClientIpHeaders(
+      useRequestEvent()?.node.req.socket.remoteAddress,
+      config.serverHeaders.trustProxy ?? false,
+      clientHeaders['x-forwarded-for'],
+      clientHeaders['x-real-ip'],
+    )),
+    ...Object.fromEntries(
+      extraHeaders
+        .filter(name => clientHeaders[name] !== undefined)
+        .map(name => [name, clientHeaders[name]!]),
+    ),
   }
 
   logger.debug(
@@ -40,50 +69,82 @@ function useServerHeaders(
 
 /**
  * Request a new CSRF cookie from the API
+ * @param app Nuxt application instance
  * @param config Module configuration
  * @param logger Logger instance
  * @returns {Promise<void>}
  */
-async function initCsrfCookie(
+async function requestCsrfCookie(
+  app: NuxtApp,
   config: ModuleOptions,
   logger: ConsolaInstance,
 ): Promise<void> {
   if (config.endpoints.csrf === undefined) {
-    throw new Error('`sanctum.endpoints.csrf` is not defined')
+    throw new SanctumConfigurationError('sanctum.endpoints.csrf')
   }
 
   await $fetch(config.endpoints.csrf, {
-    baseURL: config.baseUrl,
+    baseURL: resolveBaseUrl(app, config),
     credentials: 'include',
   })
 
   logger.debug('[request] CSRF cookie has been initialized')
 }
 
+/**
+ * Request a new CSRF cookie from the API, concurrent calls share the same request.
+ * Pending requests are bound to the Nuxt application, which is scoped per request on SSR.
+ * @param app Nuxt application instance
+ * @param config Module configuration
+ * @param logger Logger instance
+ * @returns {Promise<void>}
+ */
+export async function initCsrfCookie(
+  app: NuxtApp,
+  config: ModuleOptions,
+  logger: ConsolaInstance,
+): Promise<void> {
+  let pendingRequest = pendingCsrfRequests.get(app)
+
+  if (pendingRequest === undefined) {
+    pendingRequest = requestCsrfCookie(app, config, logger).finally(() => {
+      pendingCsrfRequests.delete(app)
+    })
+    pendingCsrfRequests.set(app, pendingRequest)
+  }
+  else {
+    logger.debug('[request] waiting for pending CSRF cookie request')
+  }
+
+  await pendingRequest
+}
+
 /**
  * Add CSRF token to the headers collection to pass from the client to the API
+ * @param app Nuxt application instance
  * @param headers Headers collection to extend
  * @param config Module configuration
  * @param logger Logger instance
  * @returns Headers collection to pass to the API
  */
 async function useCsrfHeader(
+  app: NuxtApp,
   headers: Headers,
   config: ModuleOptions,
   logger: ConsolaInstance,
 ): Promise<Headers> {
   if (config.csrf.cookie === undefined) {
-    throw new Error('`sanctum.csrf.cookie` is not defined')
+    throw new SanctumConfigurationError('sanctum.csrf.cookie')
   }
 
   if (config.csrf.header === undefined) {
-    throw new Error('`sanctum.csrf.header` is not defined')
+    throw new SanctumConfigurationError('sanctum.csrf.header')
   }
 
   let csrfToken = useCookie(config.csrf.cookie, COOKIE_OPTIONS)
 
   if (!csrfToken.value) {
-    await initCsrfCookie(config, logger)
+    await initCsrfCookie(app, config, logger)
     csrfToken = useCookie(config.csrf.cookie, COOKIE_OPTIONS)
   }
 
@@ -123,6 +184,7 @@ export default async function handleRequestCookies(
 
   if (SECURE_METHODS.has(method)) {
     ctx.options.headers = await useCsrfHeader(
+      app,
       ctx.options.headers,
       config,
       logger,
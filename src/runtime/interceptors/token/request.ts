@@ -2,6 +2,7 @@ import type { FetchContext } from 'ofetch'
 import type { ConsolaInstance } from 'consola'
 import { useSanctumAppConfig } from '../../composables/useSanctumAppConfig'
 import { appendRequestHeaders } from '../../utils/headers'
+import { SanctumConfigurationError } from '../../errors'
 import type { NuxtApp } from '#app'
 
 /**
@@ -18,7 +19,7 @@ export default async function handleRequestTokenHeader(
   const appConfig = useSanctumAppConfig()
 
   if (appConfig.tokenStorage === undefined) {
-    throw new Error('`sanctum.tokenStorage` is not defined in app.config.ts')
+    throw new SanctumConfigurationError('sanctum.tokenStorage', '`sanctum.tokenStorage` is not defined in app.config.ts')
   }
 
   const token = await appConfig.tokenStorage.get(app)
@@ -2,9 +2,11 @@ import type { RouteLocationAsPathGeneric } from 'vue-router'
 import { useSanctumConfig } from '../composables/useSanctumConfig'
 import { useSanctumAuth } from '../composables/useSanctumAuth'
 import { trimTrailingSlash } from '../utils/formatter'
-import { defineNuxtRouteMiddleware, navigateTo, createError } from '#app'
+import { SanctumConfigurationError } from '../errors'
+import { defineNuxtRouteMiddleware, navigateTo, createError, useNuxtApp } from '#app'
 
-export default defineNuxtRouteMiddleware((to) => {
+export default defineNuxtRouteMiddleware(async (to) => {
+  const nuxtApp = useNuxtApp()
   const options = useSanctumConfig()
   const { isAuthenticated } = useSanctumAuth()
 
@@ -15,7 +17,7 @@ export default defineNuxtRouteMiddleware((to) => {
   const endpoint = options.redirect.onAuthOnly
 
   if (endpoint === undefined) {
-    throw new Error('`sanctum.redirect.onAuthOnly` is not defined')
+    throw new SanctumConfigurationError('sanctum.redirect.onAuthOnly')
   }
 
   if (endpoint === false) {
@@ -28,5 +30,7 @@ export default defineNuxtRouteMiddleware((to) => {
     redirect.query = { redirect: trimTrailingSlash(to.fullPath) }
   }
 
-  return navigateTo(redirect, { replace: true })
+  await nuxtApp.callHook('sanctum:redirect', redirect)
+
+  return nuxtApp.runWithContext(() => navigateTo(redirect, { replace: true }))
 })
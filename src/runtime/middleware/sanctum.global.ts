@@ -2,9 +2,11 @@ import type { RouteLocationAsPathGeneric } from 'vue-router'
 import { useSanctumConfig } from '../composables/useSanctumConfig'
 import { useSanctumAuth } from '../composables/useSanctumAuth'
 import { trimTrailingSlash } from '../utils/formatter'
-import { defineNuxtRouteMiddleware, navigateTo } from '#app'
+import { SanctumConfigurationError } from '../errors'
+import { defineNuxtRouteMiddleware, navigateTo, useNuxtApp } from '#app'
 
-export default defineNuxtRouteMiddleware((to) => {
+export default defineNuxtRouteMiddleware(async (to) => {
+  const nuxtApp = useNuxtApp()
   const options = useSanctumConfig()
   const { isAuthenticated } = useSanctumAuth()
 
@@ -14,13 +16,15 @@ export default defineNuxtRouteMiddleware((to) => {
   ]
 
   if (homePage === undefined || homePage === false) {
-    throw new Error(
+    throw new SanctumConfigurationError(
+      'sanctum.redirect.onGuestOnly',
       'You must define onGuestOnly route when using global middleware.',
     )
   }
 
   if (loginPage === undefined || loginPage === false) {
-    throw new Error(
+    throw new SanctumConfigurationError(
+      'sanctum.redirect.onAuthOnly',
       'You must define onAuthOnly route when using global middleware.',
     )
   }
@@ -41,7 +45,8 @@ export default defineNuxtRouteMiddleware((to) => {
 
   if (isAuthenticated.value) {
     if (isPageForGuestsOnly) {
-      return navigateTo(homePage, { replace: true })
+      await nuxtApp.callHook('sanctum:redirect', homePage)
+      return nuxtApp.runWithContext(() => navigateTo(homePage, { replace: true }))
     }
 
     return
@@ -57,5 +62,7 @@ export default defineNuxtRouteMiddleware((to) => {
     redirect.query = { redirect: trimTrailingSlash(to.fullPath) }
   }
 
-  return navigateTo(redirect, { replace: true })
+  await nuxtApp.callHook('sanctum:redirect', redirect)
+
+  return nuxtApp.runWithContext(() => navigateTo(redirect, { replace: true }))
 })
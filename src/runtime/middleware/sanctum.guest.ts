@@ -1,8 +1,10 @@
 import { useSanctumAuth } from '../composables/useSanctumAuth'
 import { useSanctumConfig } from '../composables/useSanctumConfig'
-import { defineNuxtRouteMiddleware, navigateTo, createError } from '#app'
+import { SanctumConfigurationError } from '../errors'
+import { defineNuxtRouteMiddleware, navigateTo, createError, useNuxtApp } from '#app'
 
-export default defineNuxtRouteMiddleware(() => {
+export default defineNuxtRouteMiddleware(async () => {
+  const nuxtApp = useNuxtApp()
   const options = useSanctumConfig()
   const { isAuthenticated } = useSanctumAuth()
 
@@ -13,12 +15,14 @@ export default defineNuxtRouteMiddleware(() => {
   const endpoint = options.redirect.onGuestOnly
 
   if (endpoint === undefined) {
-    throw new Error('`sanctum.redirect.onGuestOnly` is not defined')
+    throw new SanctumConfigurationError('sanctum.redirect.onGuestOnly')
   }
 
   if (endpoint === false) {
     throw createError({ statusCode: 403 })
   }
 
-  return navigateTo(endpoint, { replace: true })
+  await nuxtApp.callHook('sanctum:redirect', endpoint)
+
+  return nuxtApp.runWithContext(() => navigateTo(endpoint, { replace: true }))
 })
@@ -4,9 +4,23 @@ import { createHttpClient } from './httpFactory'
 import { useSanctumUser } from './composables/useSanctumUser'
 import { useSanctumConfig } from './composables/useSanctumConfig'
 import { useSanctumAppConfig } from './composables/useSanctumAppConfig'
-import type { ModuleOptions } from './types/options'
-import { IDENTITY_LOADED_KEY } from './utils/constants'
-import { defineNuxtPlugin, updateAppConfig, useState, type NuxtApp } from '#app'
+import type { ModuleOptions, TokenStorageOptions } from './types/options'
+import type { TokenStorage } from './types/config'
+import { IDENTITY_LOADED_KEY, PASSWORD_CONFIRMED_AT_KEY } from './utils/constants'
+import { fetchIdentity } from './utils/identity'
+import { useSyncChannel } from './utils/sync'
+import { setupIdleTracker } from './utils/idle'
+import { setupSessionKeepAlive } from './utils/session'
+import { trimTrailingSlash } from './utils/formatter'
+import { SanctumConfigurationError } from './errors'
+import {
+  defineNuxtPlugin,
+  navigateTo,
+  updateAppConfig,
+  useRoute,
+  useState,
+  type NuxtApp,
+} from '#app'
 
 const LOGGER_NAME = 'nuxt-auth-sanctum-fortify-two-factor'
 
@@ -17,23 +31,50 @@ function createSanctumLogger(logLevel: number) {
   return createConsola({ level: logLevel }).withTag(loggerName)
 }
 
-async function setupDefaultTokenStorage(nuxtApp: NuxtApp, logger: ConsolaInstance) {
+const builtInTokenStorages: Record<TokenStorageOptions['driver'], () => Promise<TokenStorage>> = {
+  cookie: async () => (await import('./storages/cookieTokenStorage')).cookieTokenStorage,
+  local: async () => (await import('./storages/webTokenStorage')).localTokenStorage,
+  session: async () => (await import('./storages/webTokenStorage')).sessionTokenStorage,
+  indexeddb: async () => (await import('./storages/indexedDbTokenStorage')).indexedDbTokenStorage,
+}
+
+async function setupDefaultTokenStorage(nuxtApp: NuxtApp, options: ModuleOptions, logger: ConsolaInstance) {
+  const driver = options.tokenStorage.driver ?? 'cookie'
+
   logger.debug(
-    'Token storage is not defined, switch to default cookie storage',
+    `Token storage is not defined, switch to built-in ${driver} storage`,
   )
 
-  const defaultStorage = await import('./storages/cookieTokenStorage')
+  if (!(driver in builtInTokenStorages)) {
+    throw new SanctumConfigurationError('sanctum.tokenStorage.driver', `\`sanctum.tokenStorage.driver\` "${driver}" is not supported`)
+  }
+
+  const defaultStorage = await builtInTokenStorages[driver]()
+
+  nuxtApp.runWithContext(() => {
+    updateAppConfig({
+      sanctum: {
+        tokenStorage: defaultStorage,
+      },
+    })
+  })
+}
+
+async function setupServerTokenStorage(nuxtApp: NuxtApp, logger: ConsolaInstance) {
+  logger.debug('Server token storage is enabled, switch to HttpOnly cookie storage')
+
+  const serverStorage = await import('./storages/serverTokenStorage')
 
   nuxtApp.runWithContext(() => {
     updateAppConfig({
       sanctum: {
-        tokenStorage: defaultStorage.cookieTokenStorage,
+        tokenStorage: serverStorage.serverTokenStorage,
       },
     })
   })
 }
 
-async function initialIdentityLoad(client: $Fetch, options: ModuleOptions, logger: ConsolaInstance) {
+async function initialIdentityLoad(nuxtApp: NuxtApp, client: $Fetch, options: ModuleOptions, logger: ConsolaInstance) {
   const user = useSanctumUser()
 
   const identityFetchedOnInit = useState<boolean>(
@@ -47,11 +88,11 @@ async function initialIdentityLoad(client: $Fetch, options: ModuleOptions, logge
     logger.debug('Fetching user identity on plugin initialization')
 
     if (!options.endpoints.user) {
-      throw new Error('`sanctum.endpoints.user` is not defined')
+      throw new SanctumConfigurationError('sanctum.endpoints.user')
     }
 
     try {
-      user.value = await client(options.endpoints.user)
+      await fetchIdentity(nuxtApp, client, options)
     }
     catch (error) {
       handleIdentityLoadError(error as Error, logger)
@@ -75,6 +116,74 @@ function handleIdentityLoadError(error: Error, logger: ConsolaInstance) {
   }
 }
 
+async function followSyncRedirect(nuxtApp: NuxtApp, route: string | false | undefined) {
+  if (!route) {
+    return
+  }
+
+  await nuxtApp.runWithContext(async () => {
+    if (trimTrailingSlash(useRoute().path) === route) {
+      return
+    }
+
+    await nuxtApp.callHook('sanctum:redirect', route)
+    await navigateTo(route)
+  })
+}
+
+function setupAuthSync(nuxtApp: NuxtApp, options: ModuleOptions, logger: ConsolaInstance) {
+  const channel = useSyncChannel(options)
+
+  if (channel === undefined) {
+    return
+  }
+
+  const user = useSanctumUser()
+  const appConfig = useSanctumAppConfig()
+  const passwordConfirmedAt = useState<number | null>(PASSWORD_CONFIRMED_AT_KEY, () => null)
+
+  channel.subscribe(async (event) => {
+    logger.debug(`Received "${event.type}" event from another tab`)
+
+    switch (event.type) {
+      case 'identity':
+        user.value = event.user
+        break
+
+      case 'token':
+        // localStorage reports changes of other tabs by itself
+        if (
+          options.mode === 'token'
+          && !options.serverTokenStorage.enabled
+          && options.tokenStorage.driver !== 'local'
+        ) {
+          await nuxtApp.callHook('sanctum:token:changed', await appConfig.tokenStorage?.get(nuxtApp))
+        }
+        break
+
+      case 'login':
+        user.value = event.user
+        await nuxtApp.callHook('sanctum:login', event.user)
+        await followSyncRedirect(nuxtApp, options.redirect.onLogin)
+        break
+
+      case 'logout':
+        user.value = null
+        passwordConfirmedAt.value = null
+
+        if (options.mode === 'token') {
+          await appConfig.tokenStorage?.set(nuxtApp, undefined)
+        }
+
+        await nuxtApp.callHook('sanctum:logout')
+        await followSyncRedirect(nuxtApp, options.redirect.onLogout)
+        break
+    }
+  })
+
+  logger.debug('Listening to authentication changes from other tabs')
+}
+
 export default defineNuxtPlugin({
   name: 'nuxt-auth-sanctum-fortify-two-factor',
   async setup(_nuxtApp) {
@@ -84,12 +193,31 @@ export default defineNuxtPlugin({
     const logger = createSanctumLogger(options.logLevel)
     const client = createHttpClient(nuxtApp, logger)
 
-    if (options.mode === 'token' && !appConfig.tokenStorage) {
-      await setupDefaultTokenStorage(nuxtApp, logger)
+    if (options.mode === 'token' && options.serverTokenStorage.enabled) {
+      if (appConfig.tokenStorage) {
+        logger.warn('`sanctum.tokenStorage` is ignored, server token storage is enabled')
+      }
+
+      await setupServerTokenStorage(nuxtApp, logger)
+    }
+    else if (options.mode === 'token' && !appConfig.tokenStorage) {
+      await setupDefaultTokenStorage(nuxtApp, options, logger)
     }
 
     if (options.client.initialRequest) {
-      await initialIdentityLoad(client, options, logger)
+      await initialIdentityLoad(nuxtApp, client, options, logger)
+    }
+
+    if (import.meta.client) {
+      setupAuthSync(nuxtApp, options, logger)
+    }
+
+    if (import.meta.client && options.idle.enabled) {
+      setupIdleTracker(nuxtApp, options, logger)
+    }
+
+    if (import.meta.client && options.mode !== 'token' && options.session.keepAlive) {
+      setupSessionKeepAlive(client, options, logger)
     }
 
     return {
@@ -0,0 +1,86 @@
+import {
+  defineEventHandler,
+  getCookie,
+  getProxyRequestHeaders,
+  getRequestHeader,
+  getRequestIP,
+  getRequestURL,
+  isMethod,
+  readRawBody,
+  sendProxy,
+  type H3Event,
+} from 'h3'
+import type { ModuleOptions } from '../types/options'
+import { trimTrailingSlash } from '../utils/formatter'
+import { createClientIpHeaders, filterCookies } from '../utils/headers'
+import { useRuntimeConfig } from '#imports'
+
+const PAYLOAD_METHODS: ('PATCH' | 'POST' | 'PUT' | 'DELETE')[] = ['PATCH', 'POST', 'PUT', 'DELETE']
+
+/**
+ * Copy the client headers without the forwarding ones, which can be spoofed by the browser.
+ */
+function getClientHeaders(event: H3Event): Headers {
+  const headers = new Headers(getProxyRequestHeaders(event))
+
+  for (const name of [...headers.keys()]) {
+    if (name === 'forwarded' || name === 'x-real-ip' || name.startsWith('x-forwarded-')) {
+      headers.delete(name)
+    }
+  }
+
+  return headers
+}
+
+/**
+ * Forward requests of the `proxy` mode to the Laravel API.
+ * Cookies are bound to the Nuxt application domain, Origin and Referer point to the public application URL.
+ * With the server token storage, the token from HttpOnly cookie is attached as `Authorization` header.
+ */
+export default defineEventHandler(async (event) => {
+  const runtimeConfig = useRuntimeConfig(event)
+  const config = runtimeConfig.public.sanctum as ModuleOptions
+  const privateConfig = runtimeConfig.sanctum as { serverBaseUrl?: string } | undefined
+
+  const baseUrl = trimTrailingSlash(privateConfig?.serverBaseUrl || config.baseUrl)
+  const prefix = config.proxy.prefix ?? '/_sanctum'
+  const target = baseUrl + event.path.slice(prefix.length)
+  const origin = config.origin ?? getRequestURL(event).origin
+
+  const tokenCookie = config.mode === 'token' && config.serverTokenStorage.enabled
+    ? config.serverTokenStorage.cookie ?? 'sanctum.token'
+    : undefined
+  const token = tokenCookie && getCookie(event, tokenCookie)
+  const cookie = getRequestHeader(event, 'cookie')
+
+  // proxyRequest would merge the headers with all client headers, including the forwarding ones
+  const headers = getClientHeaders(event)
+
+  const headersToSet: Record<string, string> = {
+    // h3 does not forward Accept header, but Laravel relies on it to respond with JSON
+    Accept: getRequestHeader(event, 'accept') ?? 'application/json',
+    Origin: origin,
+    Referer: origin,
+    ...(cookie && { Cookie: filterCookies(cookie, config, tokenCookie ? [tokenCookie] : []) }),
+    ...(token && !getRequestHeader(event, 'authorization') && { Authorization: `Bearer ${token}` }),
+    ...(config.serverHeaders.forwardClientIp && createClientIpHeaders(
+      getRequestIP(event),
+      config.serverHeaders.trustProxy ?? false,
+      getRequestHeader(event, 'x-forwarded-for'),
+      getRequestHeader(event, 'x-real-ip'),
+    )),
+  }
+
+  for (const [name, value] of Object.entries(headersToSet)) {
+    headers.set(name, value)
+  }
+
+  const body = isMethod(event, PAYLOAD_METHODS)
+    ? await readRawBody(event, false).catch(() => undefined)
+    : undefined
+
+  return sendProxy(event, target, {
+    fetchOptions: { method: event.method, body, headers, redirect: 'manual' },
+    cookieDomainRewrite: { '*': '' },
+  })
+})
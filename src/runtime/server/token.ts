@@ -0,0 +1,56 @@
+import {
+  createError,
+  defineEventHandler,
+  deleteCookie,
+  getRequestHeader,
+  getRequestURL,
+  readBody,
+  setCookie,
+} from 'h3'
+import type { ModuleOptions } from '../types/options'
+import { useRuntimeConfig } from '#imports'
+
+/**
+ * Set or clear HttpOnly cookie with the token of the server token storage.
+ * Accepts only same-origin JSON requests to prevent setting the token from other sites.
+ */
+export default defineEventHandler(async (event) => {
+  const config = useRuntimeConfig(event).public.sanctum as ModuleOptions
+  const cookieName = config.serverTokenStorage.cookie ?? 'sanctum.token'
+  const requestUrl = getRequestURL(event)
+  // public origin differs from the request URL behind a reverse proxy rewriting Host
+  const allowedOrigin = config.origin ?? requestUrl.origin
+  const origin = getRequestHeader(event, 'origin')
+
+  if (origin !== undefined && origin !== allowedOrigin) {
+    throw createError({ statusCode: 403, statusMessage: 'Cross-origin token requests are not allowed' })
+  }
+
+  if (event.method === 'DELETE') {
+    deleteCookie(event, cookieName, { path: '/' })
+    return null
+  }
+
+  if (event.method !== 'POST') {
+    throw createError({ statusCode: 405, statusMessage: 'Method Not Allowed' })
+  }
+
+  if (!getRequestHeader(event, 'content-type')?.includes('application/json')) {
+    throw createError({ statusCode: 415, statusMessage: 'Unsupported Media Type' })
+  }
+
+  const body = await readBody<{ token?: unknown }>(event)
+
+  if (typeof body?.token !== 'string' || body.token === '') {
+    throw createError({ statusCode: 422, statusMessage: '`token` is required' })
+  }
+
+  setCookie(event, cookieName, body.token, {
+    httpOnly: true,
+    secure: requestUrl.protocol === 'https:',
+    sameSite: 'lax',
+    path: '/',
+  })
+
+  return null
+})
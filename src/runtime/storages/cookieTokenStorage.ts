@@ -1,26 +1,40 @@
 import { unref } from 'vue'
 import type { TokenStorage } from '../types/config'
+import type { ModuleOptions } from '../types/options'
 import { useCookie, type NuxtApp, useRequestURL } from '#app'
 
 const cookieTokenKey = 'sanctum.token.cookie'
 
 /**
  * Token storage using a secure cookie for HTTPS and plain cookie for HTTP.
+ * Cookie attributes are configured with `sanctum.tokenCookie` module options,
+ * the browser removes the token once `maxAge` passes.
  * Works with both CSR/SSR modes.
  */
 export const cookieTokenStorage: TokenStorage = {
   async get(app: NuxtApp) {
     return app.runWithContext(() => {
-      const cookie = useCookie(cookieTokenKey, { readonly: true })
+      const config = app.$config.public.sanctum as ModuleOptions
+      const cookie = useCookie(config.tokenCookie?.name ?? cookieTokenKey, { readonly: true })
       return unref(cookie.value) ?? undefined
     })
   },
 
   async set(app: NuxtApp, token?: string) {
     await app.runWithContext(() => {
+      const config = app.$config.public.sanctum as ModuleOptions
       const isSecure = useRequestURL().protocol.startsWith('https')
-      const cookie = useCookie(cookieTokenKey, { secure: isSecure })
+      const cookie = useCookie(config.tokenCookie?.name ?? cookieTokenKey, {
+        // SameSite=None is rejected by browsers without Secure attribute
+        secure: isSecure || config.tokenCookie?.sameSite === 'none',
+        sameSite: config.tokenCookie?.sameSite,
+        maxAge: config.tokenCookie?.maxAge,
+        domain: config.tokenCookie?.domain,
+        path: config.tokenCookie?.path,
+      })
       cookie.value = token
     })
+
+    await app.callHook('sanctum:token:changed', token)
   },
 }
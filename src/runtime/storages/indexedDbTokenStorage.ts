@@ -0,0 +1,76 @@
+import type { TokenStorage } from '../types/config'
+import type { ModuleOptions } from '../types/options'
+import type { NuxtApp } from '#app'
+
+const defaultTokenKey = 'sanctum.storage.token'
+const databaseName = 'sanctum'
+const storeName = 'tokens'
+
+let database: Promise<IDBDatabase> | undefined
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (database === undefined) {
+    const request = window.indexedDB.open(databaseName, 1)
+
+    request.onupgradeneeded = () => request.result.createObjectStore(storeName)
+
+    database = promisifyRequest(request).catch((error) => {
+      // allow to retry on the next call, e.g. after the storage quota was freed
+      database = undefined
+      throw error
+    })
+  }
+
+  return database
+}
+
+async function getObjectStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+  const db = await openDatabase()
+  return db.transaction(storeName, mode).objectStore(storeName)
+}
+
+function resolveTokenKey(app: NuxtApp): string {
+  const config = app.$config.public.sanctum as ModuleOptions
+  return config.tokenStorage?.key ?? defaultTokenKey
+}
+
+/**
+ * Token storage using IndexedDB, shared between browser tabs.
+ * Works only on CSR, SSR requests are sent without the token.
+ */
+export const indexedDbTokenStorage: TokenStorage = {
+  async get(app: NuxtApp) {
+    if (import.meta.server) {
+      return undefined
+    }
+
+    const store = await getObjectStore('readonly')
+    const token = await promisifyRequest(store.get(resolveTokenKey(app)))
+
+    return typeof token === 'string' ? token : undefined
+  },
+
+  async set(app: NuxtApp, token?: string) {
+    if (import.meta.server) {
+      return
+    }
+
+    const store = await getObjectStore('readwrite')
+
+    if (token) {
+      await promisifyRequest(store.put(token, resolveTokenKey(app)))
+    }
+    else {
+      await promisifyRequest(store.delete(resolveTokenKey(app)))
+    }
+
+    await app.callHook('sanctum:token:changed', token)
+  },
+}
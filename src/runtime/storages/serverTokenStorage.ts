@@ -0,0 +1,48 @@
+import { unref } from 'vue'
+import type { TokenStorage } from '../types/config'
+import type { ModuleOptions } from '../types/options'
+import { useCookie, type NuxtApp, useRequestURL } from '#app'
+
+/**
+ * Token storage using HttpOnly cookie managed by Nitro server routes.
+ * The token is not readable on CSR, requests are authenticated by the proxy route instead.
+ * Requires `sanctum.serverTokenStorage.enabled` to be set in the module options.
+ */
+export const serverTokenStorage: TokenStorage = {
+  async get(app: NuxtApp) {
+    if (import.meta.client) {
+      return undefined
+    }
+
+    return app.runWithContext(() => {
+      const config = app.$config.public.sanctum as ModuleOptions
+      const cookie = useCookie(config.serverTokenStorage.cookie!, { readonly: true })
+      return unref(cookie.value) ?? undefined
+    })
+  },
+
+  async set(app: NuxtApp, token?: string) {
+    const config = app.$config.public.sanctum as ModuleOptions
+
+    if (import.meta.server) {
+      // cookie is passed to the browser with the SSR response
+      await app.runWithContext(() => {
+        const isSecure = useRequestURL().protocol.startsWith('https')
+        const cookie = useCookie(config.serverTokenStorage.cookie!, {
+          httpOnly: true,
+          secure: isSecure,
+          sameSite: 'lax',
+        })
+        cookie.value = token
+      })
+    }
+    else {
+      await $fetch(config.serverTokenStorage.endpoint!, token === undefined
+        ? { method: 'DELETE' }
+        : { method: 'POST', body: { token } },
+      )
+    }
+
+    await app.callHook('sanctum:token:changed', token)
+  },
+}
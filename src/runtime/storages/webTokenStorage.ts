@@ -0,0 +1,75 @@
+import type { TokenStorage } from '../types/config'
+import type { ModuleOptions } from '../types/options'
+import type { NuxtApp } from '#app'
+
+const defaultTokenKey = 'sanctum.storage.token'
+
+function resolveTokenKey(app: NuxtApp): string {
+  const config = app.$config.public.sanctum as ModuleOptions
+  return config.tokenStorage?.key ?? defaultTokenKey
+}
+
+/**
+ * Create token storage using Web Storage API, not available on SSR.
+ * @param type Type of the browser storage
+ * @returns Token storage
+ */
+function createWebTokenStorage(type: 'localStorage' | 'sessionStorage'): TokenStorage {
+  let isListening = false
+
+  // localStorage is shared between tabs, so changes made by other tabs are reported as well
+  const listenToOtherTabs = (app: NuxtApp) => {
+    if (isListening || type !== 'localStorage') {
+      return
+    }
+
+    isListening = true
+
+    window.addEventListener('storage', async (event) => {
+      if (event.storageArea === window.localStorage && event.key === resolveTokenKey(app)) {
+        await app.callHook('sanctum:token:changed', event.newValue ?? undefined)
+      }
+    })
+  }
+
+  return {
+    async get(app: NuxtApp) {
+      if (import.meta.server) {
+        return undefined
+      }
+
+      listenToOtherTabs(app)
+
+      return window[type].getItem(resolveTokenKey(app)) ?? undefined
+    },
+
+    async set(app: NuxtApp, token?: string) {
+      if (import.meta.server) {
+        return
+      }
+
+      listenToOtherTabs(app)
+
+      if (token) {
+        window[type].setItem(resolveTokenKey(app), token)
+      }
+      else {
+        window[type].removeItem(resolveTokenKey(app))
+      }
+
+      await app.callHook('sanctum:token:changed', token)
+    },
+  }
+}
+
+/**
+ * Token storage using localStorage, shared between browser tabs.
+ * Works only on CSR, SSR requests are sent without the token.
+ */
+export const localTokenStorage: TokenStorage = createWebTokenStorage('localStorage')
+
+/**
+ * Token storage using sessionStorage, scoped to the browser tab.
+ * Works only on CSR, SSR requests are sent without the token.
+ */
+export const sessionTokenStorage: TokenStorage = createWebTokenStorage('sessionStorage')
@@ -39,6 +39,12 @@ export interface SanctumInterceptors {
   onResponse?: SanctumInterceptor
 }
 
+/**
+ * Handler to request password confirmation from the user, e.g. by opening a dialog.
+ * Should resolve to true once `confirmPassword` succeeded or to false if cancelled.
+ */
+export type PasswordConfirmationHandler = (app: NuxtApp) => Promise<boolean>
+
 /**
  * Sanctum configuration for the application side with user-defined handlers.
  */
@@ -51,4 +57,8 @@ export interface SanctumAppConfig {
    * Token storage handlers to be used by the client.
    */
   tokenStorage?: TokenStorage
+  /**
+   * Handler to be used when the API requires password confirmation.
+   */
+  onPasswordConfirmationRequired?: PasswordConfirmationHandler
 }
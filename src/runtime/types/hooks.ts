@@ -0,0 +1,46 @@
+import type { HookResult } from '@nuxt/schema'
+import type { FetchContext } from 'ofetch'
+import type { RouteLocationRaw } from 'vue-router'
+
+/**
+ * Runtime hooks called by the module on authentication state transitions.
+ */
+export interface SanctumRuntimeHooks {
+  /**
+   * Called when the user identity has been loaded from the API.
+   */
+  'sanctum:identity:loaded': (user: unknown) => HookResult
+  /**
+   * Called when the user has been logged in or registered successfully.
+   */
+  'sanctum:login': (user: unknown) => HookResult
+  /**
+   * Called when the login requires two-factor challenge to be completed.
+   */
+  'sanctum:two-factor:required': () => HookResult
+  /**
+   * Called when two-factor authentication has been confirmed by the user.
+   */
+  'sanctum:two-factor:confirmed': () => HookResult
+  /**
+   * Called when the user has been logged out.
+   */
+  'sanctum:logout': () => HookResult
+  /**
+   * Called when the API responds with 401 status and the user identity is reset.
+   */
+  'sanctum:unauthenticated': (ctx: FetchContext) => HookResult
+  /**
+   * Called when the API responds with 419 status due to CSRF token mismatch.
+   */
+  'sanctum:csrf:mismatch': (ctx: FetchContext) => HookResult
+  /**
+   * Called when a built-in token storage saves or removes the token,
+   * including changes made by other browser tabs when `local` storage or synchronisation is used.
+   */
+  'sanctum:token:changed': (token: string | undefined) => HookResult
+  /**
+   * Called before the module redirects the user to another route.
+   */
+  'sanctum:redirect': (to: RouteLocationRaw) => HookResult
+}
@@ -12,6 +12,21 @@ export interface SanctumEndpoints {
    * @default '/login'
    */
   login: string
+  /**
+   * The endpoint to send user details to register a new account.
+   * @default '/register'
+   */
+  register: string
+  /**
+   * The endpoint to request a password reset link for the email.
+   * @default '/forgot-password'
+   */
+  forgot_password: string
+  /**
+   * The endpoint to reset the password using the token from the reset link.
+   * @default '/reset-password'
+   */
+  reset_password: string
   /**
    * The endpoint enable two factor for a user.k
    * @default "/two-factor-qr-code"
@@ -47,11 +62,41 @@ export interface SanctumEndpoints {
    * @default "/user/confirm-password"
    */
   confirm_password: string
+  /**
+   * The endpoint to check whether the password was recently confirmed.
+   * @default '/user/confirmed-password-status'
+   */
+  confirmed_password_status: string
+  /**
+   * The endpoint to update the profile information of the current user.
+   * @default '/user/profile-information'
+   */
+  update_profile: string
+  /**
+   * The endpoint to update the password of the current user.
+   * @default '/user/password'
+   */
+  update_password: string
+  /**
+   * The endpoint to resend the email verification notification.
+   * @default '/email/verification-notification'
+   */
+  email_verification_notification: string
+  /**
+   * The endpoint prefix to verify the email using the signed URL, `/{id}/{hash}` is appended.
+   * @default '/email/verify'
+   */
+  verify_email: string
   /**
    * The endpoint to destroy current user session.
    * @default '/logout'
    */
   logout: string
+  /**
+   * The endpoint to ping to keep the session alive.
+   * @default '/sanctum/csrf-cookie'
+   */
+  keep_alive: string
   /**
    * The endpoint to fetch current user data.
    * @default '/api/user'
@@ -80,6 +125,25 @@ export interface FortifyTwoFactorOptions {
   confirmPassword: boolean
 }
 
+/**
+ * Password confirmation specific options.
+ */
+export interface PasswordConfirmationOptions {
+  /**
+   * The number of seconds the password confirmation remains valid.
+   * Should match `auth.password_timeout` value of the Laravel application.
+   * @default 10800
+   */
+  timeout: number
+  /**
+   * Determines whether to request password confirmation and replay the request
+   * when the API responds with 423 status (`password.confirm` middleware).
+   * Requires `sanctum.onPasswordConfirmationRequired` handler in app.config.ts.
+   * @default false
+   */
+  retryOnLocked: boolean
+}
+
 /**
  * CSRF token specific options.
  */
@@ -94,6 +158,48 @@ export interface CsrfOptions {
    * @default 'X-XSRF-TOKEN'
    */
   header: string
+  /**
+   * Determines whether to request a new CSRF cookie and replay the request once
+   * when the API responds with 419 status (CSRF token mismatch).
+   * @default false
+   */
+  retryOnMismatch: boolean
+}
+
+/**
+ * Policy to retry failed requests.
+ */
+export interface RetryOptions {
+  /**
+   * The number of times to retry a request when it fails.
+   * @default 1
+   */
+  attempts: number
+  /**
+   * HTTP methods of the requests to retry, only idempotent ones by default.
+   * @default ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']
+   */
+  methods: string[]
+  /**
+   * Response status codes to retry the request on.
+   * @default [408, 425, 500, 502, 503, 504]
+   */
+  statusCodes: number[]
+  /**
+   * The number of milliseconds to wait before the first retry, doubled on each next retry.
+   * @default 500
+   */
+  delay: number
+  /**
+   * The maximum number of milliseconds to wait before a retry.
+   * @default 10000
+   */
+  maxDelay: number
+  /**
+   * Determines whether to randomise delays to spread retries of concurrent requests.
+   * @default true
+   */
+  jitter: boolean
 }
 
 /**
@@ -101,15 +207,221 @@ export interface CsrfOptions {
  */
 export interface ClientOptions {
   /**
-   * The number of times to retry a request when it fails.
+   * The number of times to retry a request when it fails or the retry policy.
+   * Number or `true` applies the default policy with the given number of attempts.
    * @default false
    */
-  retry: number | boolean
+  retry: number | boolean | Partial<RetryOptions>
+  /**
+   * The number of milliseconds to wait for each request attempt before aborting it.
+   * @default undefined
+   */
+  timeout?: number
   /**
    * Determines whether to request the user identity on plugin initialization.
    * @default true
    */
   initialRequest: boolean
+  /**
+   * Determines whether to reject requests to the endpoint until its rate limit window passes.
+   * The window is determined by `Retry-After` or `X-RateLimit-Reset` headers of the 429 response.
+   * @default false
+   */
+  blockThrottledRequests: boolean
+}
+
+/**
+ * Headers and cookies to forward from the client request to the API on SSR.
+ */
+export interface ServerHeadersOptions {
+  /**
+   * Determines whether to forward the client IP with `X-Forwarded-For` and `X-Real-IP` headers.
+   * Laravel must trust the Nuxt server as a proxy (TrustProxies middleware) to use them.
+   * @default false
+   */
+  forwardClientIp: boolean
+  /**
+   * Determines whether to trust `X-Forwarded-For` and `X-Real-IP` headers of the client request.
+   * Enable only when the Nuxt server runs behind a proxy that overwrites these headers,
+   * otherwise the connection address is forwarded to prevent IP spoofing.
+   * @default false
+   */
+  trustProxy: boolean
+  /**
+   * Determines whether to forward `Accept-Language` header of the client.
+   * @default true
+   */
+  forwardAcceptLanguage: boolean
+  /**
+   * Names of additional client headers to forward, e.g. `['x-request-id']`.
+   * @default []
+   */
+  headers: string[]
+  /**
+   * Names of the cookies to forward, all cookies are forwarded if empty.
+   * Must include the session and CSRF cookies of the Laravel application.
+   * @default []
+   */
+  allowCookies: string[]
+  /**
+   * Names of the cookies to never forward, applied after `allowCookies`.
+   * @default []
+   */
+  denyCookies: string[]
+}
+
+/**
+ * Nitro server route options, used in `proxy` mode or with the server token storage.
+ */
+export interface ProxyOptions {
+  /**
+   * Path prefix of the server route forwarding requests to the Laravel API.
+   * @default '/_sanctum'
+   */
+  prefix: string
+}
+
+/**
+ * Built-in token storage to use when `sanctum.tokenStorage` is not defined in app.config.ts.
+ */
+export interface TokenStorageOptions {
+  /**
+   * Storage backend of the token.
+   * Browser storages are not available on SSR, so server-side requests are sent without the token.
+   * @default 'cookie'
+   */
+  driver: 'cookie' | 'local' | 'session' | 'indexeddb'
+  /**
+   * Key to store the token under in `local`, `session` and `indexeddb` storages.
+   * @default 'sanctum.storage.token'
+   */
+  key: string
+}
+
+/**
+ * Cookie options of the default token storage, used only in `token` mode.
+ */
+export interface TokenCookieOptions {
+  /**
+   * Name of the cookie to store the token in.
+   * @default 'sanctum.token.cookie'
+   */
+  name: string
+  /**
+   * The number of seconds the cookie remains valid, session cookie if not set.
+   * Should match `sanctum.expiration` value of the Laravel application (in minutes) multiplied by 60.
+   * @default undefined
+   */
+  maxAge?: number
+  /**
+   * SameSite attribute of the cookie.
+   * @default 'lax'
+   */
+  sameSite: 'lax' | 'strict' | 'none'
+  /**
+   * Domain of the cookie, e.g. `.example.com` to share the token between subdomains.
+   * @default undefined
+   */
+  domain?: string
+  /**
+   * Path of the cookie.
+   * @default '/'
+   */
+  path: string
+}
+
+/**
+ * HttpOnly cookie storage of the token managed by Nitro server routes, used only in `token` mode.
+ */
+export interface ServerTokenStorageOptions {
+  /**
+   * Determines whether to store the token in HttpOnly cookie instead of `sanctum.tokenStorage`.
+   * Requests are sent through the proxy route, which attaches the `Authorization` header server-side.
+   * @default false
+   */
+  enabled: boolean
+  /**
+   * Name of the HttpOnly cookie to store the token in.
+   * @default 'sanctum.token'
+   */
+  cookie: string
+  /**
+   * Path of the Nitro server route to set and clear the token cookie.
+   * @default '/_sanctum-token'
+   */
+  endpoint: string
+}
+
+/**
+ * Synchronisation of the authentication state between browser tabs.
+ */
+export interface SyncOptions {
+  /**
+   * Determines whether to broadcast login, logout, identity and token changes to other tabs.
+   * Uses BroadcastChannel API with a fallback to localStorage events.
+   * @default false
+   */
+  enabled: boolean
+  /**
+   * Name of the BroadcastChannel or localStorage key to use for synchronisation.
+   * @default 'sanctum.auth.sync'
+   */
+  channel: string
+}
+
+/**
+ * Laravel session lifetime and keep-alive options, used only in `cookie` and `proxy` modes.
+ */
+export interface SessionOptions {
+  /**
+   * The number of minutes the session remains valid without requests.
+   * Should match `SESSION_LIFETIME` value of the Laravel application.
+   * @default 120
+   */
+  lifetime: number
+  /**
+   * Name of the response header with the session expiration time, either UNIX timestamp or date string.
+   * When present in the response, takes precedence over the lifetime estimation.
+   * @default undefined
+   */
+  expiresHeader?: string
+  /**
+   * Determines whether to ping the API periodically while the user is active.
+   * @default false
+   */
+  keepAlive: boolean
+  /**
+   * The number of seconds between keep-alive requests.
+   * @default 300
+   */
+  keepAliveInterval: number
+}
+
+/**
+ * Automatic logout of inactive users.
+ */
+export interface IdleOptions {
+  /**
+   * Determines whether to log out the user after a period of inactivity.
+   * @default false
+   */
+  enabled: boolean
+  /**
+   * The number of seconds of inactivity before the user is logged out.
+   * @default 900
+   */
+  timeout: number
+  /**
+   * The number of seconds before logout when the user is considered idle and should be warned.
+   * Activity events are ignored during this window, call `stayActive` to continue the session.
+   * @default 60
+   */
+  warning: number
+  /**
+   * Browser events to consider as user activity.
+   * @default ['mousedown', 'mousemove', 'keydown', 'scroll', 'touchstart', 'wheel']
+   */
+  events: string[]
 }
 
 /**
@@ -127,6 +439,12 @@ export interface RedirectOptions {
    * @default '/'
    */
   onLogin: string | false
+  /**
+   * Route to redirect to when user has been registered.
+   * If set to false, do nothing.
+   * @default '/'
+   */
+  onRegister: string | false
   /**
    * Route to redirect to when user is authenticated but two-factor is not setup.
    * If set to false, do nothing.
@@ -151,6 +469,12 @@ export interface RedirectOptions {
    * @default '/two-factor-recovery-codes'
    */
   toRecoveryCodesOnConfirmingTwoFactor: string | false
+  /**
+   * Route to redirect to after two-factor authentication has been disabled.
+   * If set to false, do nothing.
+   * @default '/'
+   */
+  onTwoFactorDisabled: string | false
   /**
    * Route to redirect to when user is not authenticated.
    * If set to false, do nothing.
@@ -163,6 +487,12 @@ export interface RedirectOptions {
    * @default '/login'
    */
   onAuthOnly: string | false
+  /**
+   * Route to redirect to when user is authenticated but email is not verified.
+   * If set to false, the plugin will throw an 403 error.
+   * @default '/verify-email'
+   */
+  onUnverified: string | false
   /**
    * Route to redirect to when user has to be a guest.
    * If set to false, the plugin will throw an 403 error.
@@ -201,11 +531,19 @@ export interface ModuleOptions {
    * @default 'http://localhost:80'
    */
   baseUrl: string
+  /**
+   * The base URL of the Laravel API to use on SSR, e.g. internal hostname `http://api:80`.
+   * Stored in the private runtime config, so it is never exposed to the browser.
+   * Can be overridden with `NUXT_SANCTUM_SERVER_BASE_URL` environment variable.
+   * @default undefined
+   */
+  serverBaseUrl?: string
   /**
    * The mode to use for authentication.
+   * `proxy` mode uses cookies, but sends all requests through the Nitro server route on the same origin.
    * @default 'cookie'
    */
-  mode: 'cookie' | 'token'
+  mode: 'cookie' | 'token' | 'proxy'
   /**
    * The URL of the current application to use in Referrer header. (Optional)
    * @default useRequestURL().origin
@@ -235,6 +573,10 @@ export interface ModuleOptions {
    *   }
    */
   twoFactor: Partial<FortifyTwoFactorOptions>
+  /**
+   * Password confirmation specific options.
+   */
+  passwordConfirmation: Partial<PasswordConfirmationOptions>
   /**
    * Laravel Sanctum endpoints to be used by the client.
    */
@@ -247,10 +589,42 @@ export interface ModuleOptions {
    * OFetch client specific options.
    */
   client: Partial<ClientOptions>
+  /**
+   * Headers and cookies to forward from the client request to the API on SSR.
+   */
+  serverHeaders: Partial<ServerHeadersOptions>
+  /**
+   * Nitro server route options, used only in `proxy` mode.
+   */
+  proxy: Partial<ProxyOptions>
+  /**
+   * Built-in token storage to use when `sanctum.tokenStorage` is not defined in app.config.ts.
+   */
+  tokenStorage: Partial<TokenStorageOptions>
+  /**
+   * Cookie options of the default token storage.
+   */
+  tokenCookie: Partial<TokenCookieOptions>
+  /**
+   * HttpOnly cookie storage of the token managed by Nitro server routes.
+   */
+  serverTokenStorage: Partial<ServerTokenStorageOptions>
   /**
    * Behavior of the plugin redirects when user is authenticated or not.
    */
   redirect: Partial<RedirectOptions>
+  /**
+   * Synchronisation of the authentication state between browser tabs.
+   */
+  sync: Partial<SyncOptions>
+  /**
+   * Laravel session lifetime and keep-alive options.
+   */
+  session: Partial<SessionOptions>
+  /**
+   * Automatic logout of inactive users.
+   */
+  idle: Partial<IdleOptions>
   /**
    * Behavior of the global middleware.
    */
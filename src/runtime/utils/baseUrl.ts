@@ -0,0 +1,36 @@
+import type { ModuleOptions } from '../types/options'
+import type { NuxtApp } from '#app'
+
+/**
+ * Check whether requests are sent through the Nitro proxy route instead of the API directly.
+ * @param config Module configuration
+ * @returns Whether the proxy route is used
+ */
+export function isProxyEnabled(config: ModuleOptions): boolean {
+  return config.mode === 'proxy'
+    || (config.mode === 'token' && config.serverTokenStorage.enabled === true)
+}
+
+/**
+ * Resolve the base URL of the Laravel API for the current environment.
+ * SSR requests use `serverBaseUrl` from the private runtime config when it is defined.
+ * In `proxy` mode or with the server token storage, all requests are sent to the same-origin Nitro server route.
+ * @param app Nuxt application instance
+ * @param config Module configuration
+ * @returns Base URL of the API
+ */
+export function resolveBaseUrl(app: NuxtApp, config: ModuleOptions): string {
+  if (isProxyEnabled(config)) {
+    return config.proxy.prefix ?? '/_sanctum'
+  }
+
+  if (import.meta.server) {
+    const privateConfig = app.$config.sanctum as { serverBaseUrl?: string } | undefined
+
+    if (privateConfig?.serverBaseUrl) {
+      return privateConfig.serverBaseUrl
+    }
+  }
+
+  return config.baseUrl
+}
@@ -1 +1,8 @@
 export const IDENTITY_LOADED_KEY = 'sanctum.user.loaded'
+export const PASSWORD_CONFIRMED_AT_KEY = 'sanctum.password.confirmed_at'
+export const IDENTITY_STATUS_KEY = 'sanctum.user.status'
+export const IDENTITY_FETCHED_AT_KEY = 'sanctum.user.fetched_at'
+export const IDLE_LAST_ACTIVITY_KEY = 'sanctum.idle.last_activity'
+export const IDLE_REMAINING_SECONDS_KEY = 'sanctum.idle.remaining_seconds'
+export const SESSION_EXPIRES_AT_KEY = 'sanctum.session.expires_at'
+export const THROTTLED_UNTIL_KEY = 'sanctum.throttle.until'
@@ -1,3 +1,5 @@
+import type { ModuleOptions } from '../types/options'
+
 export function appendRequestHeaders(headers: Headers, append: Record<string, string>): Headers {
   for (const [key, value] of Object.entries(append)) {
     headers.set(key, value)
@@ -5,3 +7,60 @@ export function appendRequestHeaders(headers: Headers, append: Record<string, st
 
   return headers
 }
+
+/**
+ * Filter the cookie header by allowed and denied cookie names
+ * @param cookie Cookie header of the client request
+ * @param config Module configuration
+ * @param exclude Names of additional cookies to exclude
+ * @returns Cookie header to pass to the API
+ */
+export function filterCookies(cookie: string, config: ModuleOptions, exclude: string[] = []): string {
+  const allow = config.serverHeaders.allowCookies ?? []
+  const deny = [...(config.serverHeaders.denyCookies ?? []), ...exclude]
+
+  if (allow.length === 0 && deny.length === 0) {
+    return cookie
+  }
+
+  return cookie
+    .split(';')
+    .map(pair => pair.trim())
+    .filter((pair) => {
+      const name = pair.split('=')[0]!
+
+      return (allow.length === 0 || allow.includes(name)) && !deny.includes(name)
+    })
+    .join('; ')
+}
+
+/**
+ * Create headers to pass the client IP address to the API.
+ * Forwarding headers of the client request can be spoofed by the browser,
+ * so they are only used when the Nuxt server runs behind a trusted proxy.
+ * @param remoteAddress Address of the client connection
+ * @param trustProxy Whether to trust forwarding headers of the client request
+ * @param forwardedFor X-Forwarded-For header of the client request
+ * @param realIp X-Real-IP header of the client request
+ * @returns Forwarding headers
+ */
+export function createClientIpHeaders(
+  remoteAddress: string | undefined,
+  trustProxy: boolean,
+  forwardedFor?: string,
+  realIp?: string,
+): Record<string, string> {
+  if (!trustProxy) {
+    return remoteAddress
+      ? { 'X-Forwarded-For': remoteAddress, 'X-Real-IP': remoteAddress }
+      : {}
+  }
+
+  const forwardedChain = [forwardedFor, remoteAddress].filter(Boolean).join(', ')
+  const clientIp = realIp ?? forwardedFor?.split(',')[0]?.trim() ?? remoteAddress
+
+  return {
+    ...(forwardedChain && { 'X-Forwarded-For': forwardedChain }),
+    ...(clientIp && { 'X-Real-IP': clientIp }),
+  }
+}
@@ -0,0 +1,137 @@
+import type { $Fetch } from 'ofetch'
+import type { Ref } from 'vue'
+import type { ModuleOptions } from '../types/options'
+import { useSanctumUser } from '../composables/useSanctumUser'
+import { SanctumConfigurationError } from '../errors'
+import { IDENTITY_FETCHED_AT_KEY, IDENTITY_STATUS_KEY } from './constants'
+import { useState, type NuxtApp } from '#app'
+
+export type IdentityStatus = 'idle' | 'pending' | 'success' | 'error'
+
+interface IdentityRequests {
+  /**
+   * Request which has been sent to the API and is waiting for the response.
+   */
+  current?: Promise<unknown>
+  /**
+   * Request queued after the current one, which has not been sent yet.
+   */
+  next?: Promise<unknown>
+}
+
+const identityRequests = new WeakMap<NuxtApp, IdentityRequests>()
+
+/**
+ * Returns the status of the latest user identity request.
+ */
+export function useIdentityStatus(): Ref<IdentityStatus> {
+  return useState<IdentityStatus>(IDENTITY_STATUS_KEY, () => 'idle')
+}
+
+/**
+ * Returns the timestamp of the latest successful user identity request.
+ */
+export function useIdentityFetchedAt(): Ref<number | null> {
+  return useState<number | null>(IDENTITY_FETCHED_AT_KEY, () => null)
+}
+
+export interface FetchIdentityOptions {
+  /**
+   * Whether to ignore the request in flight and wait for a new one sent afterwards,
+   * e.g. after login when the request in flight may return an outdated identity.
+   */
+  fresh?: boolean
+}
+
+/**
+ * Fetch the user identity from the API and set it to the current state.
+ * Concurrent calls share the same request, fresh calls share the request queued
+ * after the one in flight. Requests are bound to the Nuxt application, which is scoped per request on SSR.
+ * @param app Nuxt application instance
+ * @param client Sanctum HTTP client
+ * @param options Module configuration
+ * @param fetchOptions Whether to skip the request in flight
+ * @returns User identity returned by the API
+ */
+export async function fetchIdentity<T>(
+  app: NuxtApp,
+  client: $Fetch,
+  options: ModuleOptions,
+  fetchOptions: FetchIdentityOptions = {},
+): Promise<T> {
+  let requests = identityRequests.get(app)
+
+  if (requests === undefined) {
+    requests = {}
+    identityRequests.set(app, requests)
+  }
+
+  const pendingRequest = fetchOptions.fresh
+    ? requests.next
+    : requests.next ?? requests.current
+
+  if (pendingRequest !== undefined) {
+    return await (pendingRequest as Promise<T>)
+  }
+
+  if (requests.current === undefined) {
+    return await sendIdentityRequest<T>(app, client, options, requests)
+  }
+
+  // the fresh request is sent after the one in flight to keep the latest identity in the state
+  const queue = requests
+  const next = requests.current
+    .catch(() => undefined)
+    .then(() => {
+      queue.next = undefined
+      return sendIdentityRequest<T>(app, client, options, queue)
+    })
+
+  requests.next = next
+
+  return await next
+}
+
+function sendIdentityRequest<T>(
+  app: NuxtApp,
+  client: $Fetch,
+  options: ModuleOptions,
+  requests: IdentityRequests,
+): Promise<T> {
+  const request: Promise<T> = app.runWithContext(() => loadIdentity<T>(app, client, options)).finally(() => {
+    if (requests.current === request) {
+      requests.current = undefined
+    }
+  })
+
+  requests.current = request
+
+  return request
+}
+
+async function loadIdentity<T>(app: NuxtApp, client: $Fetch, options: ModuleOptions): Promise<T> {
+  const user = useSanctumUser<T>()
+  const status = useIdentityStatus()
+  const fetchedAt = useIdentityFetchedAt()
+
+  if (!options.endpoints.user) {
+    throw new SanctumConfigurationError('sanctum.endpoints.user')
+  }
+
+  status.value = 'pending'
+
+  try {
+    user.value = await client<T>(options.endpoints.user)
+  }
+  catch (error) {
+    status.value = 'error'
+    throw error
+  }
+
+  status.value = 'success'
+  fetchedAt.value = Date.now()
+
+  await app.callHook('sanctum:identity:loaded', user.value)
+
+  return user.value
+}
@@ -0,0 +1,172 @@
+import type { Ref } from 'vue'
+import type { ConsolaInstance } from 'consola'
+import type { ModuleOptions } from '../types/options'
+import { useSanctumUser } from '../composables/useSanctumUser'
+import { useSanctumAuth } from '../composables/useSanctumAuth'
+import { useSanctumAppConfig } from '../composables/useSanctumAppConfig'
+import {
+  IDLE_LAST_ACTIVITY_KEY,
+  IDLE_REMAINING_SECONDS_KEY,
+  PASSWORD_CONFIRMED_AT_KEY,
+  SESSION_EXPIRES_AT_KEY,
+} from './constants'
+import { broadcastSyncEvent, useSyncChannel } from './sync'
+import { trimTrailingSlash } from './formatter'
+import { navigateTo, useRoute, useState, type NuxtApp } from '#app'
+
+const DEFAULT_ACTIVITY_EVENTS = ['mousedown', 'mousemove', 'keydown', 'scroll', 'touchstart', 'wheel']
+const ACTIVITY_SYNC_INTERVAL = 5000
+const COUNTDOWN_INTERVAL = 1000
+
+let lastActivityBroadcast = 0
+let isTrackingActivity = false
+
+export interface IdleState {
+  lastActivity: Ref<number>
+  remainingSeconds: Ref<number | null>
+}
+
+/**
+ * Returns the shared state of the idle tracker.
+ */
+export function useIdleState(): IdleState {
+  return {
+    lastActivity: useState<number>(IDLE_LAST_ACTIVITY_KEY, () => Date.now()),
+    remainingSeconds: useState<number | null>(IDLE_REMAINING_SECONDS_KEY, () => null),
+  }
+}
+
+/**
+ * Register user activity and share it with other tabs.
+ * @param options Module configuration
+ * @param state Idle tracker state
+ * @param force Whether to broadcast the activity regardless of the sync interval
+ */
+export function registerActivity(options: ModuleOptions, state: IdleState, force: boolean = false): void {
+  const timestamp = Date.now()
+
+  state.lastActivity.value = timestamp
+
+  if (state.remainingSeconds.value !== null) {
+    state.remainingSeconds.value = options.idle.timeout ?? 0
+  }
+
+  if (force || timestamp - lastActivityBroadcast >= ACTIVITY_SYNC_INTERVAL) {
+    lastActivityBroadcast = timestamp
+    broadcastSyncEvent(options, { type: 'activity', timestamp })
+  }
+}
+
+/**
+ * Listen to user activity in the browser and other tabs, listeners are registered only once.
+ * @param options Module configuration
+ * @param state Idle tracker state
+ */
+export function trackActivity(options: ModuleOptions, state: IdleState): void {
+  if (isTrackingActivity) {
+    return
+  }
+
+  isTrackingActivity = true
+
+  const warning = options.idle.warning ?? 0
+  const events = options.idle.events ?? DEFAULT_ACTIVITY_EVENTS
+
+  const onActivity = () => {
+    // the user has to confirm the activity explicitly once warned
+    if (state.remainingSeconds.value !== null && state.remainingSeconds.value <= warning) {
+      return
+    }
+
+    registerActivity(options, state)
+  }
+
+  for (const event of events) {
+    window.addEventListener(event, onActivity, { passive: true })
+  }
+
+  useSyncChannel(options)?.subscribe((event) => {
+    if (event.type === 'activity' && event.timestamp > state.lastActivity.value) {
+      state.lastActivity.value = event.timestamp
+    }
+  })
+}
+
+/**
+ * Track user activity in the browser and log out the user once the idle timeout expires.
+ * @param nuxtApp Nuxt application instance
+ * @param options Module configuration
+ * @param logger Module logger instance
+ */
+export function setupIdleTracker(nuxtApp: NuxtApp, options: ModuleOptions, logger: ConsolaInstance): void {
+  const user = useSanctumUser()
+  const state = useIdleState()
+  const timeout = (options.idle.timeout ?? 0) * 1000
+
+  let isLoggingOut = false
+
+  trackActivity(options, state)
+
+  setInterval(async () => {
+    if (user.value === null || isLoggingOut) {
+      state.lastActivity.value = Date.now()
+      state.remainingSeconds.value = null
+      return
+    }
+
+    const remaining = Math.ceil((state.lastActivity.value + timeout - Date.now()) / 1000)
+
+    state.remainingSeconds.value = Math.max(remaining, 0)
+
+    if (remaining > 0) {
+      return
+    }
+
+    logger.info('User is idle, logging out')
+    isLoggingOut = true
+
+    try {
+      await nuxtApp.runWithContext(async () => await useSanctumAuth().logout())
+    }
+    catch (error) {
+      logger.error('Unable to log out idle user, resetting identity', error)
+      await nuxtApp.runWithContext(async () => await resetIdleUser(nuxtApp, options))
+    }
+    finally {
+      isLoggingOut = false
+    }
+  }, COUNTDOWN_INTERVAL)
+
+  logger.debug('Idle tracker has been initialized', { timeout, warning: options.idle.warning })
+}
+
+/**
+ * Clear the authentication state locally when the logout request fails,
+ * e.g. the session has already expired on the API side.
+ * @param nuxtApp Nuxt application instance
+ * @param options Module configuration
+ */
+async function resetIdleUser(nuxtApp: NuxtApp, options: ModuleOptions): Promise<void> {
+  const user = useSanctumUser()
+  const appConfig = useSanctumAppConfig()
+
+  user.value = null
+  useState<number | null>(PASSWORD_CONFIRMED_AT_KEY, () => null).value = null
+  useState<number | null>(SESSION_EXPIRES_AT_KEY, () => null).value = null
+
+  if (options.mode === 'token') {
+    await appConfig.tokenStorage?.set(nuxtApp, undefined)
+  }
+
+  broadcastSyncEvent(options, { type: 'logout' })
+  await nuxtApp.callHook('sanctum:logout')
+
+  const route = options.redirect.onLogout
+
+  if (!route || trimTrailingSlash(useRoute().path) === route) {
+    return
+  }
+
+  await nuxtApp.callHook('sanctum:redirect', route)
+  await navigateTo(route)
+}
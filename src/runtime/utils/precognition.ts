@@ -0,0 +1,63 @@
+import type { $Fetch, FetchOptions } from 'ofetch'
+import { SanctumError, getValidationErrors, toSanctumError, type SanctumValidationErrors } from '../errors'
+
+export type FormMethod = 'get' | 'post' | 'put' | 'patch' | 'delete'
+
+/**
+ * Build fetch options to send the payload as query or body depending on the method.
+ * @param method HTTP method
+ * @param payload Data to send
+ * @returns Fetch options
+ */
+export function toFetchOptions(method: FormMethod, payload: Record<string, unknown>): FetchOptions<'json'> {
+  return method === 'get'
+    ? { method, query: payload }
+    : { method, body: payload }
+}
+
+/**
+ * Validate the payload against the Laravel FormRequest without executing the controller.
+ * Requests are sent through the Sanctum client, so CSRF and token interceptors are applied as usual.
+ * @see https://laravel.com/docs/11.x/precognition
+ * @param client Sanctum HTTP client
+ * @param method HTTP method of the endpoint
+ * @param url API endpoint to validate against
+ * @param payload Form data
+ * @param fields Fields to validate, all fields if empty
+ * @returns Validation messages keyed by field, empty when the validation has passed
+ */
+export async function precognitiveRequest(
+  client: $Fetch,
+  method: FormMethod,
+  url: string,
+  payload: Record<string, unknown>,
+  fields: string[] = [],
+): Promise<SanctumValidationErrors> {
+  const headers: Record<string, string> = { Precognition: 'true' }
+
+  if (fields.length > 0) {
+    headers['Precognition-Validate-Only'] = fields.join(',')
+  }
+
+  try {
+    const response = await client.raw(url, { ...toFetchOptions(method, payload), headers })
+
+    if (response.headers.get('precognition-success') !== 'true') {
+      throw new SanctumError(
+        'precognition_unsupported',
+        `Endpoint "${url}" did not respond with \`Precognition-Success\` header, check the HandlePrecognitiveRequests middleware`,
+      )
+    }
+
+    return {}
+  }
+  catch (error) {
+    const errors = getValidationErrors(error)
+
+    if (errors === undefined) {
+      throw toSanctumError(error)
+    }
+
+    return errors
+  }
+}
@@ -0,0 +1,128 @@
+import type { FetchContext, FetchOptions } from 'ofetch'
+import type { ClientOptions, RetryOptions } from '../types/options'
+
+export type RetryableFetchOptions = FetchOptions & {
+  /**
+   * Zero-based number of the current attempt, set on the first attempt.
+   */
+  retryAttempt?: number
+  /**
+   * Signal passed by the caller, preserved to combine it with a new timeout on each attempt.
+   */
+  callerSignal?: AbortSignal
+}
+
+const DEFAULT_RETRY_POLICY: RetryOptions = {
+  attempts: 1,
+  methods: ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'],
+  statusCodes: [408, 425, 500, 502, 503, 504],
+  delay: 500,
+  maxDelay: 10000,
+  jitter: true,
+}
+
+/**
+ * Normalise the retry option to the complete retry policy.
+ * @param retry Retry option of the module configuration
+ * @returns Retry policy or undefined if retries are disabled
+ */
+export function resolveRetryPolicy(retry: ClientOptions['retry'] | undefined): RetryOptions | undefined {
+  if (retry === undefined || retry === false || retry === 0) {
+    return undefined
+  }
+
+  if (retry === true) {
+    return DEFAULT_RETRY_POLICY
+  }
+
+  const policy = typeof retry === 'number'
+    ? { ...DEFAULT_RETRY_POLICY, attempts: retry }
+    : { ...DEFAULT_RETRY_POLICY, ...retry }
+
+  return {
+    ...policy,
+    methods: policy.methods.map(method => method.toUpperCase()),
+  }
+}
+
+/**
+ * Calculate the delay before the next attempt using exponential backoff.
+ * @param policy Retry policy
+ * @param attempt Zero-based number of the failed attempt
+ * @returns Delay in milliseconds
+ */
+export function calculateRetryDelay(policy: RetryOptions, attempt: number): number {
+  const delay = Math.min(policy.delay * 2 ** attempt, policy.maxDelay)
+
+  // equal jitter keeps at least a half of the delay to avoid immediate retries
+  return policy.jitter
+    ? Math.round(delay / 2 + Math.random() * delay / 2)
+    : delay
+}
+
+function anySignal(signals: AbortSignal[]): AbortSignal {
+  if (typeof AbortSignal.any === 'function') {
+    return AbortSignal.any(signals)
+  }
+
+  // fallback for runtimes without AbortSignal.any, e.g. Safari before 17.4
+  const controller = new AbortController()
+
+  for (const signal of signals) {
+    if (signal.aborted) {
+      controller.abort(signal.reason)
+      break
+    }
+
+    signal.addEventListener('abort', () => controller.abort(signal.reason), { once: true })
+  }
+
+  return controller.signal
+}
+
+function createAttemptSignal(timeout: number, callerSignal?: AbortSignal): AbortSignal {
+  const timeoutSignal = AbortSignal.timeout(timeout)
+
+  return callerSignal === undefined
+    ? timeoutSignal
+    : anySignal([callerSignal, timeoutSignal])
+}
+
+/**
+ * Apply the retry policy and timeout to the request, called before each attempt.
+ * Explicit `retry` option of the request takes precedence over the policy.
+ * @param ctx Fetch context
+ * @param policy Retry policy, undefined if retries are disabled
+ * @param timeout Timeout of each attempt in milliseconds
+ */
+export function applyRetryPolicy(
+  ctx: FetchContext,
+  policy: RetryOptions | undefined,
+  timeout: number | undefined,
+): void {
+  const options = ctx.options as RetryableFetchOptions
+
+  if (options.retryAttempt === undefined) {
+    const method = options.method?.toUpperCase() ?? 'GET'
+
+    options.retryAttempt = 0
+    options.callerSignal = options.signal ?? undefined
+
+    options.retry ??= policy?.methods.includes(method) ? policy.attempts : false
+
+    if (policy !== undefined) {
+      options.retryStatusCodes ??= policy.statusCodes
+      options.retryDelay ??= (context: FetchContext) => calculateRetryDelay(
+        policy,
+        (context.options as RetryableFetchOptions).retryAttempt ?? 0,
+      )
+    }
+  }
+  else {
+    options.retryAttempt += 1
+  }
+
+  if (timeout) {
+    options.signal = createAttemptSignal(timeout, options.callerSignal)
+  }
+}
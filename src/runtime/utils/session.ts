@@ -0,0 +1,112 @@
+import type { $Fetch, FetchContext } from 'ofetch'
+import type { Ref } from 'vue'
+import type { ConsolaInstance } from 'consola'
+import type { ModuleOptions } from '../types/options'
+import { useSanctumUser } from '../composables/useSanctumUser'
+import { SanctumConfigurationError } from '../errors'
+import { SESSION_EXPIRES_AT_KEY } from './constants'
+import { trackActivity, useIdleState } from './idle'
+import { useState } from '#app'
+
+/**
+ * Returns the estimated timestamp of the session expiration.
+ */
+export function useSessionExpiresAt(): Ref<number | null> {
+  return useState<number | null>(SESSION_EXPIRES_AT_KEY, () => null)
+}
+
+function parseExpiresHeader(value: string): number | null {
+  const timestamp = /^\d+$/.test(value)
+    ? Number(value) * 1000
+    : Date.parse(value)
+
+  return Number.isNaN(timestamp) ? null : timestamp
+}
+
+function isIdentityResponse(ctx: FetchContext, options: ModuleOptions): boolean {
+  const endpoint = options.endpoints.user
+  const path = ctx.request.toString().split('?')[0]!
+
+  return !!endpoint && ctx.response!.ok && path.endsWith(endpoint)
+}
+
+/**
+ * Update the session expiration time based on the API response.
+ * Only responses of authenticated users extend the session, server errors keep the current estimate.
+ * @param ctx Fetch context
+ * @param options Module configuration
+ * @param expiresAt Session expiration state
+ * @param user Current user state
+ */
+export function updateSessionExpiry(
+  ctx: FetchContext,
+  options: ModuleOptions,
+  expiresAt: Ref<number | null>,
+  user: Ref<unknown>,
+): void {
+  if (options.mode === 'token' || ctx.response === undefined) {
+    return
+  }
+
+  // the user state is set after the identity response, so it counts as authenticated
+  const isAuthenticated = user.value !== null || isIdentityResponse(ctx, options)
+
+  if (!isAuthenticated || [401, 419].includes(ctx.response.status)) {
+    expiresAt.value = null
+    return
+  }
+
+  if (ctx.response.status >= 500) {
+    return
+  }
+
+  const header = options.session.expiresHeader
+    ? ctx.response.headers.get(options.session.expiresHeader)
+    : null
+
+  expiresAt.value = header
+    ? parseExpiresHeader(header)
+    : Date.now() + (options.session.lifetime ?? 0) * 60 * 1000
+}
+
+/**
+ * Ping the API periodically while the user is active to prevent the session expiration.
+ * @param client Sanctum HTTP client
+ * @param options Module configuration
+ * @param logger Module logger instance
+ */
+export function setupSessionKeepAlive(client: $Fetch, options: ModuleOptions, logger: ConsolaInstance): void {
+  const user = useSanctumUser()
+  const state = useIdleState()
+  const interval = (options.session.keepAliveInterval ?? 0) * 1000
+
+  // zero or invalid interval would ping the API in a tight loop
+  if (!Number.isFinite(interval) || interval <= 0) {
+    logger.warn('Session keep-alive is disabled, `sanctum.session.keepAliveInterval` must be a positive number of seconds')
+    return
+  }
+
+  if (options.endpoints.keep_alive === undefined) {
+    throw new SanctumConfigurationError('sanctum.endpoints.keep_alive')
+  }
+
+  const endpoint = options.endpoints.keep_alive
+
+  trackActivity(options, state)
+
+  setInterval(async () => {
+    if (user.value === null || Date.now() - state.lastActivity.value > interval) {
+      return
+    }
+
+    try {
+      await client(endpoint)
+      logger.debug('Session has been kept alive')
+    }
+    catch (error) {
+      logger.warn('Unable to keep the session alive', error)
+    }
+  }, interval)
+
+  logger.debug('Session keep-alive has been initialized', { interval })
+}
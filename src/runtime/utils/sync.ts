@@ -0,0 +1,108 @@
+import { toRaw } from 'vue'
+import type { ModuleOptions } from '../types/options'
+
+/**
+ * Authentication state change to share between browser tabs.
+ */
+export type SanctumSyncEvent =
+  | { type: 'login', user: unknown }
+  | { type: 'logout' }
+  | { type: 'identity', user: unknown }
+  | { type: 'token' }
+  | { type: 'activity', timestamp: number }
+
+export type SanctumSyncHandler = (event: SanctumSyncEvent) => void | Promise<void>
+
+export interface SanctumSyncChannel {
+  /**
+   * Send the event to all other tabs.
+   */
+  post: (event: SanctumSyncEvent) => void
+  /**
+   * Listen to events from other tabs, returns a function to stop listening.
+   */
+  subscribe: (handler: SanctumSyncHandler) => () => void
+}
+
+let syncChannel: SanctumSyncChannel | undefined
+
+function createBroadcastChannel(name: string): SanctumSyncChannel {
+  const channel = new BroadcastChannel(name)
+
+  return {
+    post(event) {
+      channel.postMessage(event)
+    },
+
+    subscribe(handler) {
+      const listener = (message: MessageEvent<SanctumSyncEvent>) => handler(message.data)
+
+      channel.addEventListener('message', listener)
+
+      return () => channel.removeEventListener('message', listener)
+    },
+  }
+}
+
+function createStorageChannel(name: string): SanctumSyncChannel {
+  return {
+    post(event) {
+      // timestamp guarantees a new value, so the storage event is fired every time
+      window.localStorage.setItem(name, JSON.stringify({ ...event, timestamp: Date.now() }))
+      window.localStorage.removeItem(name)
+    },
+
+    subscribe(handler) {
+      const listener = (storageEvent: StorageEvent) => {
+        if (storageEvent.key !== name || !storageEvent.newValue) {
+          return
+        }
+
+        handler(JSON.parse(storageEvent.newValue) as SanctumSyncEvent)
+      }
+
+      window.addEventListener('storage', listener)
+
+      return () => window.removeEventListener('storage', listener)
+    },
+  }
+}
+
+/**
+ * Returns a channel to synchronise authentication state between browser tabs.
+ * @param options Module configuration
+ * @returns Shared channel instance or undefined on SSR or when synchronisation is disabled
+ */
+export function useSyncChannel(options: ModuleOptions): SanctumSyncChannel | undefined {
+  if (import.meta.server || !options.sync.enabled) {
+    return undefined
+  }
+
+  const name = options.sync.channel ?? 'sanctum.auth.sync'
+
+  syncChannel ??= typeof BroadcastChannel === 'undefined'
+    ? createStorageChannel(name)
+    : createBroadcastChannel(name)
+
+  return syncChannel
+}
+
+/**
+ * Send the authentication state change to other tabs if synchronisation is enabled.
+ * @param options Module configuration
+ * @param event Event to broadcast
+ */
+export function broadcastSyncEvent(options: ModuleOptions, event: SanctumSyncEvent): void {
+  const channel = useSyncChannel(options)
+
+  if (channel === undefined) {
+    return
+  }
+
+  // reactive proxies of the state cannot be cloned by BroadcastChannel
+  const payload = 'user' in event
+    ? { ...event, user: toRaw(event.user) }
+    : event
+
+  channel.post(payload)
+}
@@ -0,0 +1,88 @@
+import type { FetchContext } from 'ofetch'
+import type { Ref } from 'vue'
+import { THROTTLED_UNTIL_KEY } from './constants'
+import { trimTrailingSlash } from './formatter'
+import { useState } from '#app'
+
+/**
+ * Returns timestamps until which the API endpoints are throttled, keyed by endpoint path.
+ */
+export function useThrottledUntil(): Ref<Record<string, number>> {
+  return useState<Record<string, number>>(THROTTLED_UNTIL_KEY, () => ({}))
+}
+
+/**
+ * Resolve the endpoint path of the request without base URL and query.
+ * @param request Request URL
+ * @param baseUrl Base URL of the API
+ * @returns Endpoint path, e.g. `/login`
+ */
+export function resolveEndpoint(request: FetchContext['request'], baseUrl?: string): string {
+  const url = typeof request === 'string' ? request : request.url
+  const base = baseUrl ? trimTrailingSlash(baseUrl) : undefined
+  const path = (base && url.startsWith(base) ? url.slice(base.length) : url).split('?')[0]!
+
+  // relative requests may omit the leading slash, e.g. `login`
+  return path.startsWith('/') ? path : `/${path}`
+}
+
+/**
+ * Parse the end of the rate limit window from `Retry-After` or `X-RateLimit-Reset` headers.
+ * @param headers Response headers
+ * @returns Timestamp in milliseconds or null if the headers are missing
+ */
+export function parseThrottleHeaders(headers: Headers): number | null {
+  const retryAfter = headers.get('retry-after')
+
+  if (retryAfter) {
+    const timestamp = /^\d+$/.test(retryAfter)
+      ? Date.now() + Number(retryAfter) * 1000
+      : Date.parse(retryAfter)
+
+    if (!Number.isNaN(timestamp)) {
+      return timestamp
+    }
+  }
+
+  const reset = headers.get('x-ratelimit-reset')
+
+  return reset && /^\d+$/.test(reset) ? Number(reset) * 1000 : null
+}
+
+/**
+ * Track the rate limit window of the endpoint based on the API response.
+ * @param ctx Fetch context
+ * @param baseUrl Base URL of the API
+ * @param throttledUntil Throttled endpoints state
+ */
+export function updateThrottle(
+  ctx: FetchContext,
+  baseUrl: string | undefined,
+  throttledUntil: Ref<Record<string, number>>,
+): void {
+  if (ctx.response === undefined) {
+    return
+  }
+
+  const endpoint = resolveEndpoint(ctx.request, baseUrl)
+  const until = ctx.response.status === 429
+    ? parseThrottleHeaders(ctx.response.headers)
+    : null
+
+  if (until === null && !(endpoint in throttledUntil.value)) {
+    return
+  }
+
+  const now = Date.now()
+
+  // drop expired windows to keep the shared state small
+  const active = Object.fromEntries(
+    Object.entries(throttledUntil.value).filter(([key, value]) => key !== endpoint && value > now),
+  )
+
+  if (until !== null) {
+    active[endpoint] = until
+  }
+
+  throttledUntil.value = active
+}
@@ -10,6 +10,7 @@ export const registerTypeTemplates = (resolver: Resolver) => {
       return `// Generated by nuxt-auth-sanctum module
 import type { SanctumAppConfig } from '${getRelativePath('./runtime/types/config.ts')}';
 import type { SanctumGlobalMiddlewarePageMeta } from '${getRelativePath('./runtime/types/meta.ts')}';
+import type { SanctumRuntimeHooks } from '${getRelativePath('./runtime/types/hooks.ts')}';
 
 declare module 'nuxt/schema' {
     interface AppConfig {
@@ -36,6 +37,7 @@ declare module '#app' {
          */
         sanctum?: Partial<SanctumGlobalMiddlewarePageMeta>;
     }
+    interface RuntimeNuxtHooks extends SanctumRuntimeHooks {}
 }
 
 declare module '#app/../pages/runtime/composables' {
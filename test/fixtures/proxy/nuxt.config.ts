@@ -0,0 +1,14 @@
+import MyModule from '../../../src/module'
+
+export default defineNuxtConfig({
+  modules: [MyModule],
+
+  sanctum: {
+    mode: 'proxy',
+    baseUrl: 'http://localhost:80',
+    origin: 'http://app.test',
+    client: {
+      initialRequest: false,
+    },
+  },
+})
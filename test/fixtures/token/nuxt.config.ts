@@ -0,0 +1,17 @@
+import MyModule from '../../../src/module'
+
+export default defineNuxtConfig({
+  modules: [MyModule],
+
+  sanctum: {
+    mode: 'token',
+    baseUrl: 'http://localhost:80',
+    origin: 'http://app.test',
+    serverTokenStorage: {
+      enabled: true,
+    },
+    client: {
+      initialRequest: false,
+    },
+  },
+})
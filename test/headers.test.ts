@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest'
+import type { ModuleOptions } from '../src/runtime/types/options'
+import { createClientIpHeaders, filterCookies } from '../src/runtime/utils/headers'
+
+function createConfig(allowCookies: string[] = [], denyCookies: string[] = []): ModuleOptions {
+  return { serverHeaders: { allowCookies, denyCookies } } as unknown as ModuleOptions
+}
+
+describe('headers', () => {
+  const cookie = 'laravel_session=abc; XSRF-TOKEN=token; analytics=xyz'
+
+  it('forwards all cookies without filters', () => {
+    expect(filterCookies(cookie, createConfig())).toBe(cookie)
+  })
+
+  it('forwards only allowed cookies', () => {
+    expect(filterCookies(cookie, createConfig(['laravel_session', 'XSRF-TOKEN'])))
+      .toBe('laravel_session=abc; XSRF-TOKEN=token')
+  })
+
+  it('drops denied and excluded cookies', () => {
+    expect(filterCookies(cookie, createConfig([], ['analytics']))).toBe('laravel_session=abc; XSRF-TOKEN=token')
+    expect(filterCookies(cookie, createConfig(['laravel_session', 'analytics'], ['analytics']))).toBe('laravel_session=abc')
+    expect(filterCookies(cookie, createConfig(), ['XSRF-TOKEN'])).toBe('laravel_session=abc; analytics=xyz')
+  })
+
+  it('forwards the connection address without trusted proxy', () => {
+    expect(createClientIpHeaders('10.0.0.1', false, '1.2.3.4', '1.2.3.4')).toEqual({
+      'X-Forwarded-For': '10.0.0.1',
+      'X-Real-IP': '10.0.0.1',
+    })
+    expect(createClientIpHeaders(undefined, false, '1.2.3.4')).toEqual({})
+  })
+
+  it('forwards the client address behind trusted proxy', () => {
+    expect(createClientIpHeaders('10.0.0.1', true, '1.2.3.4, 172.16.0.1')).toEqual({
+      'X-Forwarded-For': '1.2.3.4, 172.16.0.1, 10.0.0.1',
+      'X-Real-IP': '1.2.3.4',
+    })
+    expect(createClientIpHeaders('10.0.0.1', true, '1.2.3.4', '5.6.7.8')).toMatchObject({ 'X-Real-IP': '5.6.7.8' })
+    expect(createClientIpHeaders('10.0.0.1', true)).toEqual({
+      'X-Forwarded-For': '10.0.0.1',
+      'X-Real-IP': '10.0.0.1',
+    })
+  })
+})
@@ -0,0 +1,97 @@
+import { createServer } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { afterAll, afterEach, describe, it, expect, vi } from 'vitest'
+import { ref } from 'vue'
+import { $fetch } from 'ofetch'
+import type { ModuleOptions } from '../src/runtime/types/options'
+import { fetchIdentity } from '../src/runtime/utils/identity'
+import type { NuxtApp } from '#app'
+
+vi.mock('#app', () => {
+  const state = new Map()
+
+  return {
+    useState: (key: string, init: () => unknown) => {
+      if (!state.has(key)) {
+        state.set(key, ref(init()))
+      }
+
+      return state.get(key)
+    },
+  }
+})
+
+vi.mock('../src/runtime/composables/useSanctumConfig', () => ({
+  useSanctumConfig: () => ({ userStateKey: 'sanctum.user.identity' }),
+}))
+
+let requestCount = 0
+
+// slow API to keep the requests in flight
+const api = createServer((_request, response) => {
+  requestCount += 1
+
+  setTimeout(() => {
+    response.setHeader('Content-Type', 'application/json')
+    response.end(JSON.stringify({ id: requestCount }))
+  }, 20)
+})
+
+await new Promise<void>(resolve => api.listen(0, resolve))
+
+const client = $fetch.create({ baseURL: `http://localhost:${(api.address() as AddressInfo).port}` })
+const options = { endpoints: { user: '/api/user' } } as ModuleOptions
+
+function createApp(): NuxtApp {
+  return {
+    runWithContext: (fn: () => unknown) => fn(),
+    callHook: async () => {},
+  } as unknown as NuxtApp
+}
+
+describe('identity', () => {
+  afterEach(() => {
+    requestCount = 0
+  })
+
+  afterAll(() => {
+    api.close()
+  })
+
+  it('shares the request between concurrent calls', async () => {
+    const app = createApp()
+
+    const identities = await Promise.all([
+      fetchIdentity(app, client, options),
+      fetchIdentity(app, client, options),
+      fetchIdentity(app, client, options),
+    ])
+
+    expect(requestCount).toBe(1)
+    expect(identities).toEqual([{ id: 1 }, { id: 1 }, { id: 1 }])
+  })
+
+  it('sends a single fresh request after the one in flight', async () => {
+    const app = createApp()
+
+    const initial = fetchIdentity(app, client, options)
+    const fresh = await Promise.all([
+      fetchIdentity(app, client, options, { fresh: true }),
+      fetchIdentity(app, client, options, { fresh: true }),
+      fetchIdentity(app, client, options, { fresh: true }),
+    ])
+
+    expect(await initial).toEqual({ id: 1 })
+    expect(fresh).toEqual([{ id: 2 }, { id: 2 }, { id: 2 }])
+    expect(requestCount).toBe(2)
+  })
+
+  it('sends a fresh request without the one in flight', async () => {
+    const app = createApp()
+
+    await fetchIdentity(app, client, options)
+    await fetchIdentity(app, client, options, { fresh: true })
+
+    expect(requestCount).toBe(2)
+  })
+})
@@ -0,0 +1,91 @@
+import { createServer, type IncomingMessage } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { fileURLToPath } from 'node:url'
+import { afterAll, describe, it, expect } from 'vitest'
+import { setup, fetch } from '@nuxt/test-utils'
+
+let lastRequest: IncomingMessage | undefined
+
+// minimal stand-in for Laravel API
+const laravel = createServer(async (request, response) => {
+  lastRequest = request
+
+  let body = ''
+
+  for await (const chunk of request) {
+    body += chunk
+  }
+
+  response.setHeader('Set-Cookie', 'laravel_session=abc; Domain=api.internal; Path=/; HttpOnly')
+  response.setHeader('Content-Type', 'application/json')
+  response.end(JSON.stringify({ path: request.url, ...(body && { body }) }))
+})
+
+await new Promise<void>(resolve => laravel.listen(0, resolve))
+
+describe('proxy mode', async () => {
+  await setup({
+    rootDir: fileURLToPath(new URL('./fixtures/proxy', import.meta.url)),
+    nuxtConfig: {
+      runtimeConfig: {
+        public: {
+          sanctum: {
+            baseUrl: `http://localhost:${(laravel.address() as AddressInfo).port}`,
+          },
+        },
+      },
+    },
+  })
+
+  afterAll(() => {
+    laravel.close()
+  })
+
+  it('forwards requests to the API', async () => {
+    const response = await fetch('/_sanctum/api/user?include=roles', {
+      headers: {
+        Accept: 'application/json',
+        Cookie: 'laravel_session=abc; XSRF-TOKEN=token',
+      },
+    })
+
+    expect(await response.json()).toEqual({ path: '/api/user?include=roles' })
+    expect(lastRequest?.headers.cookie).toBe('laravel_session=abc; XSRF-TOKEN=token')
+    expect(lastRequest?.headers.accept).toBe('application/json')
+  })
+
+  it('rewrites origin and cookie domain', async () => {
+    const response = await fetch('/_sanctum/sanctum/csrf-cookie')
+
+    expect(lastRequest?.headers.origin).toBe('http://app.test')
+    expect(lastRequest?.headers.referer).toBe('http://app.test')
+    expect(response.headers.get('set-cookie')).toBe('laravel_session=abc; Path=/; HttpOnly')
+  })
+
+  it('forwards the request body', async () => {
+    const response = await fetch('/_sanctum/login', {
+      method: 'POST',
+      headers: { 'Accept': 'application/json', 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email: 'john@example.com' }),
+    })
+
+    expect(await response.json()).toEqual({ path: '/login', body: '{"email":"john@example.com"}' })
+    expect(lastRequest?.method).toBe('POST')
+  })
+
+  it('does not forward spoofed client IP headers', async () => {
+    await fetch('/_sanctum/login', {
+      method: 'POST',
+      headers: {
+        'Accept': 'application/json',
+        'X-Forwarded-For': '1.2.3.4',
+        'X-Real-IP': '1.2.3.4',
+        'Forwarded': 'for=1.2.3.4',
+      },
+    })
+
+    expect(lastRequest?.headers['x-forwarded-for']).toBeUndefined()
+    expect(lastRequest?.headers['x-real-ip']).toBeUndefined()
+    expect(lastRequest?.headers.forwarded).toBeUndefined()
+  })
+})
@@ -0,0 +1,95 @@
+import { createServer } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { afterAll, afterEach, describe, it, expect, vi } from 'vitest'
+import { $fetch, type FetchContext } from 'ofetch'
+import { applyRetryPolicy, calculateRetryDelay, resolveRetryPolicy } from '../src/runtime/utils/retry'
+
+let requestCount = 0
+
+// always unavailable API to count the attempts
+const api = createServer((_request, response) => {
+  requestCount += 1
+  response.statusCode = 503
+  response.end()
+})
+
+await new Promise<void>(resolve => api.listen(0, resolve))
+
+const baseURL = `http://localhost:${(api.address() as AddressInfo).port}`
+
+describe('retry policy', () => {
+  afterEach(() => {
+    requestCount = 0
+    vi.restoreAllMocks()
+  })
+
+  afterAll(() => {
+    api.close()
+  })
+
+  it('resolves the retry option to the policy', () => {
+    expect(resolveRetryPolicy(undefined)).toBeUndefined()
+    expect(resolveRetryPolicy(false)).toBeUndefined()
+    expect(resolveRetryPolicy(0)).toBeUndefined()
+
+    expect(resolveRetryPolicy(true)).toMatchObject({ attempts: 1, methods: ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'] })
+    expect(resolveRetryPolicy(3)).toMatchObject({ attempts: 3, delay: 500 })
+    expect(resolveRetryPolicy({ methods: ['get', 'post'], delay: 100 })).toMatchObject({
+      attempts: 1,
+      methods: ['GET', 'POST'],
+      delay: 100,
+    })
+  })
+
+  it('calculates the exponential delay', () => {
+    const policy = resolveRetryPolicy({ delay: 100, maxDelay: 1000, jitter: false })!
+
+    expect(calculateRetryDelay(policy, 0)).toBe(100)
+    expect(calculateRetryDelay(policy, 2)).toBe(400)
+    expect(calculateRetryDelay(policy, 10)).toBe(1000)
+
+    vi.spyOn(Math, 'random').mockReturnValue(0)
+    expect(calculateRetryDelay({ ...policy, jitter: true }, 2)).toBe(200)
+  })
+
+  it('retries idempotent requests', async () => {
+    const policy = resolveRetryPolicy({ attempts: 2, delay: 1, jitter: false })
+
+    await expect($fetch('/', {
+      baseURL,
+      onRequest: (ctx: FetchContext) => applyRetryPolicy(ctx, policy, undefined),
+    })).rejects.toThrow()
+
+    expect(requestCount).toBe(3)
+  })
+
+  it('does not retry POST requests by default', async () => {
+    const policy = resolveRetryPolicy({ attempts: 2, delay: 1 })
+
+    await expect($fetch('/', {
+      baseURL,
+      method: 'POST',
+      onRequest: (ctx: FetchContext) => applyRetryPolicy(ctx, policy, undefined),
+    })).rejects.toThrow()
+
+    expect(requestCount).toBe(1)
+  })
+
+  it('keeps the attempt timeout with the caller signal without AbortSignal.any', async () => {
+    const any = AbortSignal.any
+    const ctx = { request: '/', options: { signal: new AbortController().signal } } as FetchContext
+
+    // @ts-expect-error simulate runtime without AbortSignal.any
+    AbortSignal.any = undefined
+
+    try {
+      applyRetryPolicy(ctx, undefined, 10)
+      await new Promise(resolve => setTimeout(resolve, 50))
+
+      expect(ctx.options.signal?.aborted).toBe(true)
+    }
+    finally {
+      AbortSignal.any = any
+    }
+  })
+})
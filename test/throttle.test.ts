@@ -0,0 +1,32 @@
+import { afterEach, describe, it, expect, vi } from 'vitest'
+import { parseThrottleHeaders, resolveEndpoint } from '../src/runtime/utils/throttle'
+
+vi.mock('#app', () => ({ useState: vi.fn() }))
+
+describe('throttle', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('resolves the endpoint path of the request', () => {
+    expect(resolveEndpoint('/login')).toBe('/login')
+    expect(resolveEndpoint('login')).toBe('/login')
+    expect(resolveEndpoint('/login?remember=1')).toBe('/login')
+    expect(resolveEndpoint('http://api.test/login', 'http://api.test')).toBe('/login')
+    expect(resolveEndpoint('http://api.test/login', 'http://api.test/')).toBe('/login')
+    expect(resolveEndpoint('http://api.test', 'http://api.test/')).toBe('/')
+    expect(resolveEndpoint(new Request('http://api.test/api/user?include=roles'), 'http://api.test')).toBe('/api/user')
+  })
+
+  it('parses the end of the rate limit window', () => {
+    vi.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') })
+
+    const now = Date.now()
+
+    expect(parseThrottleHeaders(new Headers({ 'Retry-After': '60' }))).toBe(now + 60000)
+    expect(parseThrottleHeaders(new Headers({ 'Retry-After': 'Thu, 01 Jan 2026 00:05:00 GMT' }))).toBe(now + 300000)
+    expect(parseThrottleHeaders(new Headers({ 'X-RateLimit-Reset': String(now / 1000 + 30) }))).toBe(now + 30000)
+    expect(parseThrottleHeaders(new Headers({ 'Retry-After': 'soon', 'X-RateLimit-Reset': 'later' }))).toBeNull()
+    expect(parseThrottleHeaders(new Headers())).toBeNull()
+  })
+})
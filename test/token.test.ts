@@ -0,0 +1,51 @@
+import { fileURLToPath } from 'node:url'
+import { describe, it, expect } from 'vitest'
+import { setup, fetch } from '@nuxt/test-utils'
+
+describe('server token storage', async () => {
+  await setup({
+    rootDir: fileURLToPath(new URL('./fixtures/token', import.meta.url)),
+  })
+
+  function storeToken(headers: Record<string, string>, body: string = JSON.stringify({ token: 'secret' })) {
+    return fetch('/_sanctum-token', { method: 'POST', headers, body })
+  }
+
+  it('stores the token in HttpOnly cookie', async () => {
+    const response = await storeToken({ 'Content-Type': 'application/json', 'Origin': 'http://app.test' })
+
+    expect(response.status).toBe(204)
+    expect(response.headers.get('set-cookie')).toBe('sanctum.token=secret; Path=/; HttpOnly; SameSite=Lax')
+  })
+
+  it('clears the token cookie', async () => {
+    const response = await fetch('/_sanctum-token', { method: 'DELETE', headers: { Origin: 'http://app.test' } })
+
+    expect(response.headers.get('set-cookie')).toContain('sanctum.token=; Max-Age=0')
+  })
+
+  it('rejects cross-origin requests', async () => {
+    const response = await storeToken({ 'Content-Type': 'application/json', 'Origin': 'http://evil.test' })
+
+    expect(response.status).toBe(403)
+    expect(response.headers.get('set-cookie')).toBeNull()
+  })
+
+  it('rejects unsupported methods', async () => {
+    const response = await fetch('/_sanctum-token', { method: 'PUT' })
+
+    expect(response.status).toBe(405)
+  })
+
+  it('rejects non-JSON requests', async () => {
+    const response = await storeToken({ 'Content-Type': 'text/plain' }, 'token=secret')
+
+    expect(response.status).toBe(415)
+  })
+
+  it('requires the token', async () => {
+    const response = await storeToken({ 'Content-Type': 'application/json' }, JSON.stringify({ token: '' }))
+
+    expect(response.status).toBe(422)
+  })
+})